@@ -0,0 +1,205 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { ImageResponse } from "next/og";
+import { getPostAuthor } from "@/lib/authors";
+import { getPostBySlug, POST_IMAGE_ID } from "@/lib/blog";
+import { formatDate, getMessages, toLocale } from "@/lib/i18n";
+import { siteConfig } from "@/lib/site";
+
+export const size = { width: 1200, height: 630 };
+export const contentType = "image/png";
+
+interface ImageParams {
+  locale: string;
+  slug: string;
+}
+
+interface ImageProps {
+  params: Promise<ImageParams>;
+  id: Promise<string>;
+}
+
+// Una sola card per articolo, con l'alt nella lingua del post e il suo titolo.
+// I parametri statici arrivano da generateStaticParams della pagina dell'articolo
+export async function generateImageMetadata({ params }: { params: ImageParams }) {
+  const locale = toLocale(params.locale);
+  const post = getPostBySlug(params.slug, locale);
+  const messages = getMessages(locale).blog;
+
+  return [
+    {
+      id: POST_IMAGE_ID,
+      alt: messages.post.imageAlt(post?.title ?? messages.title),
+      size,
+      contentType,
+    },
+  ];
+}
+
+// Le immagini locali vengono lette da /public e incorporate, così la build non dipende dalla rete
+async function loadCoverImage(image: string) {
+  if (/^https?:\/\//.test(image)) return image;
+
+  try {
+    const file = await readFile(path.join(process.cwd(), "public", image));
+    const extension = path.extname(image).slice(1).toLowerCase();
+    const mimeType = extension === "svg" ? "image/svg+xml" : `image/${extension === "jpg" ? "jpeg" : extension}`;
+    return `data:${mimeType};base64,${file.toString("base64")}`;
+  } catch (error) {
+    console.error(`Error loading cover image ${image}:`, error);
+    return null;
+  }
+}
+
+export default async function Image({ params }: ImageProps) {
+  const { locale: localeParam, slug } = await params;
+  const locale = toLocale(localeParam);
+  const post = getPostBySlug(slug, locale);
+  const messages = getMessages(locale).blog;
+  const cover = post?.image ? await loadCoverImage(post.image) : null;
+
+  const title = post?.title ?? messages.title;
+  const date = post
+    ? formatDate(post.date, locale, {
+        day: "numeric",
+        month: "long",
+        year: "numeric",
+      })
+    : null;
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          position: "relative",
+          background: "#050508",
+          color: "white",
+        }}
+      >
+        {/* Sfondo: immagine del frontmatter oppure gradienti del brand */}
+        {cover ? (
+          <img
+            src={cover}
+            alt=""
+            width={size.width}
+            height={size.height}
+            style={{ position: "absolute", top: 0, left: 0, width: "100%", height: "100%", objectFit: "cover" }}
+          />
+        ) : (
+          <div
+            style={{
+              position: "absolute",
+              top: 0,
+              left: 0,
+              width: "100%",
+              height: "100%",
+              display: "flex",
+              backgroundImage: "linear-gradient(135deg, rgba(59,130,246,0.25), rgba(5,5,8,0) 50%, rgba(168,85,247,0.25))",
+            }}
+          />
+        )}
+        <div
+          style={{
+            position: "absolute",
+            top: 0,
+            left: 0,
+            width: "100%",
+            height: "100%",
+            display: "flex",
+            background: cover ? "rgba(5,5,8,0.78)" : "transparent",
+          }}
+        />
+
+        <div
+          style={{
+            position: "relative",
+            display: "flex",
+            flexDirection: "column",
+            justifyContent: "space-between",
+            width: "100%",
+            padding: "64px 72px",
+          }}
+        >
+          {/* Header */}
+          <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between" }}>
+            <div style={{ display: "flex", alignItems: "center", gap: 16 }}>
+              <div
+                style={{
+                  width: 56,
+                  height: 56,
+                  borderRadius: 16,
+                  display: "flex",
+                  alignItems: "center",
+                  justifyContent: "center",
+                  backgroundImage: "linear-gradient(135deg, #3b82f6, #a855f7)",
+                  fontSize: 24,
+                  fontWeight: 700,
+                }}
+              >
+                LA
+              </div>
+              <div style={{ display: "flex", fontSize: 28, fontWeight: 600, color: "#d1d5db" }}>
+                {messages.title}
+              </div>
+            </div>
+            {post?.category && (
+              <div
+                style={{
+                  display: "flex",
+                  padding: "10px 24px",
+                  borderRadius: 999,
+                  backgroundImage: "linear-gradient(90deg, #3b82f6, #a855f7)",
+                  fontSize: 22,
+                  fontWeight: 700,
+                  textTransform: "uppercase",
+                  letterSpacing: 2,
+                }}
+              >
+                {post.category}
+              </div>
+            )}
+          </div>
+
+          {/* Title */}
+          <div
+            style={{
+              display: "flex",
+              fontSize: title.length > 60 ? 56 : 68,
+              fontWeight: 800,
+              lineHeight: 1.15,
+              letterSpacing: -1,
+            }}
+          >
+            {title}
+          </div>
+
+          {/* Footer */}
+          <div
+            style={{
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "space-between",
+              borderTop: "2px solid rgba(75,85,99,0.6)",
+              paddingTop: 28,
+              fontSize: 26,
+              color: "#9ca3af",
+            }}
+          >
+            <div style={{ display: "flex", gap: 32 }}>
+              <div style={{ display: "flex" }}>{post ? getPostAuthor(post).name : siteConfig.author}</div>
+              {date && <div style={{ display: "flex" }}>{date}</div>}
+              {post && <div style={{ display: "flex" }}>{messages.readTime(post.readTime)}</div>}
+            </div>
+            <div style={{ display: "flex", color: "#60a5fa", fontWeight: 600 }}>
+              {new URL(siteConfig.url).host}
+            </div>
+          </div>
+        </div>
+      </div>
+    ),
+    size
+  );
+}
@@ -0,0 +1,354 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { Calendar, Clock, ArrowLeft, ArrowRight, RefreshCw, Tag, Layers } from "lucide-react";
+import Link from "next/link";
+import Navbar from "@/components/portfolio/Navbar";
+import TableOfContents from "@/components/blog/TableOfContents";
+import PostNavigation from "@/components/blog/PostNavigation";
+import RelatedPosts from "@/components/blog/RelatedPosts";
+import MarkdownContent, { proseClassName } from "@/components/blog/MarkdownContent";
+import MdxContent from "@/components/blog/MdxContent";
+import { AuthorAvatar, AuthorSocials } from "@/components/blog/AuthorProfile";
+import { ArticleStructuredData } from "@/components/StructuredData";
+import {
+  getCategoryHref,
+  getLastModified,
+  getLocalePosts,
+  getPostBySlug,
+  getPostHref,
+  getPostImage,
+  getSeriesPosts,
+  getTagHref,
+  getTranslationPaths,
+  slugify,
+} from "@/lib/blog";
+import { formatDate, getMessages, languageAlternates, localeConfig, localizedPath, toLocale } from "@/lib/i18n";
+import { absoluteUrl, siteConfig } from "@/lib/site";
+import { getAuthorHref, getPostAuthor } from "@/lib/authors";
+import { localize } from "@/lib/portfolio";
+import { getAdjacentPosts, getRelatedPosts } from "@/lib/related";
+import { TocEntry } from "@/lib/toc";
+import "katex/dist/katex.min.css";
+import "../blog.css";
+
+interface PageProps {
+  params: Promise<{
+    locale: string;
+    slug: string;
+  }>;
+}
+
+// Ogni lingua pubblica solo i propri articoli
+export async function generateStaticParams({ params }: { params: { locale: string } }) {
+  return getLocalePosts(toLocale(params.locale)).map((post) => ({
+    slug: post.slug,
+  }));
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { locale, slug } = await params;
+  const post = getPostBySlug(slug, toLocale(locale));
+
+  if (!post) {
+    return {
+      title: getMessages(toLocale(locale)).blog.post.notFound,
+    };
+  }
+
+  // Le immagini OG/Twitter arrivano da opengraph-image.tsx e twitter-image.tsx
+  return {
+    title: post.title,
+    description: post.excerpt,
+    keywords: post.tags,
+    alternates: {
+      canonical: getPostHref(post),
+      languages: languageAlternates(getTranslationPaths(post)),
+    },
+    openGraph: {
+      type: "article",
+      locale: localeConfig[post.locale].openGraph,
+      url: getPostHref(post),
+      siteName: siteConfig.name,
+      title: post.title,
+      description: post.excerpt,
+      publishedTime: post.date,
+      modifiedTime: getLastModified(post),
+      authors: [absoluteUrl(getAuthorHref(getPostAuthor(post).id, post.locale))],
+      section: post.category,
+      tags: post.tags,
+    },
+    twitter: {
+      card: "summary_large_image",
+      title: post.title,
+      description: post.excerpt,
+      creator: "@lradev",
+    },
+  };
+}
+
+export default async function BlogPostPage({ params }: PageProps) {
+  const { locale: localeParam, slug } = await params;
+  const locale = toLocale(localeParam);
+  const post = getPostBySlug(slug, locale);
+
+  if (!post) {
+    notFound();
+  }
+
+  const messages = getMessages(locale).blog;
+  const blogHref = localizedPath(locale, "/blog");
+  const seriesPosts = post.series ? getSeriesPosts(post.series, locale) : [];
+  const relatedPosts = getRelatedPosts(post);
+  const { previous, next } = getAdjacentPosts(post);
+  const author = getPostAuthor(post);
+  const authorHref = getAuthorHref(author.id, locale);
+
+  return (
+    <>
+      <ArticleStructuredData
+        title={post.title}
+        description={post.excerpt}
+        datePublished={post.date}
+        dateModified={post.updated}
+        slug={post.slug}
+        locale={locale}
+        category={post.category || 'Backend'}
+        author={author}
+        tags={post.tags}
+        series={post.series}
+        seriesOrder={post.seriesOrder}
+        image={absoluteUrl(getPostImage(post))}
+      />
+      <Navbar locale={locale} languagePaths={getTranslationPaths(post)} />
+
+      {/* Hero Section */}
+      <div className="relative bg-gradient-to-b from-background via-card to-background border-b border-border pt-24">
+        <div className="absolute inset-0 bg-[linear-gradient(to_right,#80808012_1px,transparent_1px),linear-gradient(to_bottom,#80808012_1px,transparent_1px)] bg-[size:24px_24px]" />
+        <div className="absolute inset-0 bg-gradient-to-b from-blue-500/5 via-purple-500/5 to-transparent" />
+
+        <div className="relative max-w-5xl mx-auto px-6 py-12">
+          {/* Back Button */}
+          <Link
+            href={blogHref}
+            className="inline-flex items-center gap-2 text-muted-foreground hover:text-accent transition-colors mb-8 group"
+          >
+            <ArrowLeft className="w-4 h-4 group-hover:-translate-x-1 transition-transform" />
+            <span className="font-medium">{messages.post.backToBlog}</span>
+          </Link>
+
+          {/* Category Badge */}
+          {(post.category || post.draft) && (
+            <div className="flex flex-wrap items-center gap-3 mb-6">
+              {post.category && (
+                <Link
+                  href={getCategoryHref(slugify(post.category), locale)}
+                  className="inline-block px-5 py-2 bg-gradient-to-r from-blue-500 to-purple-500 text-white rounded-full font-bold text-sm uppercase tracking-wider shadow-lg shadow-blue-500/30 hover:shadow-blue-500/50 transition-shadow"
+                >
+                  {post.category}
+                </Link>
+              )}
+              {post.draft && (
+                <span className="inline-block px-4 py-2 border border-amber-500/50 bg-amber-500/10 text-amber-400 rounded-full font-bold text-sm uppercase tracking-wider">
+                  {messages.draft}
+                </span>
+              )}
+            </div>
+          )}
+
+          {/* Title */}
+          <h1 className="text-5xl md:text-7xl font-extrabold mb-8 leading-tight">
+            <span className="bg-gradient-to-r from-foreground via-blue-700 to-purple-700 dark:via-blue-100 dark:to-purple-100 bg-clip-text text-transparent">
+              {post.title}
+            </span>
+          </h1>
+
+          {/* Metadata */}
+          <div className="flex flex-wrap items-center gap-6 text-muted-foreground mb-8">
+            <Link href={authorHref} className="flex items-center gap-3 group">
+              <AuthorAvatar author={author} />
+              <div>
+                <div className="text-sm text-subtle-foreground">{messages.post.writtenBy}</div>
+                <div className="text-foreground font-semibold group-hover:text-accent transition-colors">{author.name}</div>
+              </div>
+            </Link>
+
+            <div className="h-8 w-px bg-border-strong" />
+
+            <div className="flex items-center gap-2">
+              <Calendar className="w-5 h-5 text-accent" />
+              <div>
+                <div className="text-sm text-subtle-foreground">{messages.post.publishedOn}</div>
+                <div className="text-foreground font-medium">
+                  {formatDate(post.date, locale, {
+                    day: 'numeric',
+                    month: 'long',
+                    year: 'numeric'
+                  })}
+                </div>
+              </div>
+            </div>
+
+            <div className="h-8 w-px bg-border-strong" />
+
+            <div className="flex items-center gap-2">
+              <Clock className="w-5 h-5 text-purple-400" />
+              <div>
+                <div className="text-sm text-subtle-foreground">{messages.post.readingTime}</div>
+                <div className="text-foreground font-medium">{post.readTime}</div>
+              </div>
+            </div>
+
+            {post.updated && (
+              <>
+                <div className="h-8 w-px bg-border-strong" />
+
+                <div className="flex items-center gap-2">
+                  <RefreshCw className="w-5 h-5 text-emerald-400" />
+                  <div>
+                    <div className="text-sm text-subtle-foreground">{messages.post.updatedOn}</div>
+                    <div className="text-foreground font-medium">
+                      {formatDate(post.updated, locale, {
+                        day: 'numeric',
+                        month: 'long',
+                        year: 'numeric'
+                      })}
+                    </div>
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+
+          {/* Excerpt */}
+          <p className="text-xl text-foreground/80 leading-relaxed max-w-3xl border-l-4 border-blue-500 pl-6 py-2">
+            {post.excerpt}
+          </p>
+
+          {/* Tags */}
+          {post.tags.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 mt-8">
+              <Tag className="w-4 h-4 text-subtle-foreground" />
+              {post.tags.map((tag) => (
+                <Link
+                  key={tag}
+                  href={getTagHref(slugify(tag), locale)}
+                  className="px-3 py-1 bg-muted/80 border border-border-strong text-foreground/80 text-sm rounded-full hover:border-blue-500/50 hover:text-accent transition-colors"
+                >
+                  #{tag}
+                </Link>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Article Content */}
+      <div className="min-h-screen bg-background text-foreground py-16 px-6">
+        <div className="max-w-4xl mx-auto lg:max-w-6xl lg:grid lg:grid-cols-[minmax(0,1fr)_15rem] lg:gap-12">
+        <article className="min-w-0">
+
+        {/* Series */}
+        {post.series && seriesPosts.length > 1 && (
+          <nav className="bg-gradient-to-br from-card/80 to-muted/50 border border-border-strong/50 rounded-2xl p-6 mb-12">
+            <div className="flex items-center gap-2 text-sm text-subtle-foreground mb-4">
+              <Layers className="w-4 h-4 text-purple-400" />
+              <span>
+                {messages.post.series} <span className="text-foreground font-semibold">{post.series}</span> ·{" "}
+                {messages.post.seriesProgress(
+                  seriesPosts.findIndex((seriesPost) => seriesPost.slug === post.slug) + 1,
+                  seriesPosts.length
+                )}
+              </span>
+            </div>
+            <ol className="space-y-2">
+              {seriesPosts.map((seriesPost, index) => (
+                <li key={seriesPost.slug} className="flex items-baseline gap-3">
+                  <span className="text-subtle-foreground text-sm font-mono">{index + 1}.</span>
+                  {seriesPost.slug === post.slug ? (
+                    <span className="text-foreground font-semibold">{seriesPost.title}</span>
+                  ) : (
+                    <Link
+                      href={getPostHref(seriesPost)}
+                      className="text-muted-foreground hover:text-accent transition-colors"
+                    >
+                      {seriesPost.title}
+                    </Link>
+                  )}
+                </li>
+              ))}
+            </ol>
+          </nav>
+        )}
+
+        {/* Content */}
+        <div className={`${proseClassName} prose-xl max-w-none`}>
+          {post.type === "MdxPost" ? (
+            <MdxContent code={post.body.code} locale={locale} />
+          ) : (
+            <MarkdownContent html={post.body.html} locale={locale} />
+          )}
+        </div>
+
+
+        {/* Footer */}
+        <footer className="mt-24">
+          {/* Decorative separator */}
+          <div className="flex items-center gap-4 mb-12">
+            <div className="h-px flex-1 bg-gradient-to-r from-transparent via-border-strong to-transparent" />
+            <div className="text-subtle-foreground text-sm font-medium">{messages.post.endOfArticle}</div>
+            <div className="h-px flex-1 bg-gradient-to-r from-transparent via-border-strong to-transparent" />
+          </div>
+
+          {/* Author card */}
+          <div className="bg-gradient-to-br from-card/80 to-muted/50 border border-border-strong/50 rounded-2xl p-8 mb-12">
+            <div className="flex flex-col sm:flex-row items-start gap-6">
+              <AuthorAvatar author={author} size="md" />
+              <div className="flex-1">
+                <h3 className="text-2xl font-bold text-foreground mb-1">{messages.post.writtenBy} {author.name}</h3>
+                <p className="text-accent font-medium mb-3">{localize(author.role, locale)}</p>
+                <p className="text-muted-foreground leading-relaxed mb-4">
+                  {localize(author.bio, locale)}
+                </p>
+                <div className="flex flex-wrap items-center gap-x-6 gap-y-4">
+                  <AuthorSocials author={author} locale={locale} />
+                  <Link
+                    href={authorHref}
+                    className="inline-flex items-center gap-2 text-accent hover:text-accent/80 font-medium transition-colors"
+                  >
+                    {messages.post.authorArchive(author.name)}
+                    <ArrowRight className="w-4 h-4" />
+                  </Link>
+                  <Link
+                    href={`${localizedPath(locale)}#contatti`}
+                    className="inline-flex items-center gap-2 text-muted-foreground hover:text-foreground font-medium transition-colors"
+                  >
+                    {messages.post.contactMe}
+                  </Link>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <RelatedPosts posts={relatedPosts} />
+
+          <PostNavigation locale={locale} previous={previous} next={next} />
+
+          {/* Back to blog */}
+          <div className="text-center">
+            <Link
+              href={blogHref}
+              className="inline-flex items-center gap-3 px-8 py-4 bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600 text-white font-bold rounded-xl transition-all shadow-lg shadow-blue-500/30 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-0.5"
+            >
+              <ArrowLeft className="w-5 h-5" />
+              {messages.post.backToArticles}
+            </Link>
+          </div>
+        </footer>
+      </article>
+
+      <TableOfContents locale={locale} toc={post.toc as TocEntry[]} />
+      </div>
+    </div>
+    </>
+  );
+}
@@ -0,0 +1 @@
+export { default, size, contentType, generateImageMetadata } from "./opengraph-image";
@@ -0,0 +1,89 @@
+import { notFound } from "next/navigation";
+import PostArchive from "@/components/blog/PostArchive";
+import { AuthorAvatar, AuthorSocials } from "@/components/blog/AuthorProfile";
+import { getAuthorById, getAuthorHref, getAuthorPaths, getAuthors, getPostsByAuthor } from "@/lib/authors";
+import { getMessages, languageAlternates, localizedPath, toLocale } from "@/lib/i18n";
+import { localize } from "@/lib/portfolio";
+
+interface PageProps {
+  params: Promise<{
+    locale: string;
+    id: string;
+  }>;
+}
+
+export const dynamicParams = false;
+
+// Solo gli autori con articoli nella lingua
+export async function generateStaticParams({ params }: { params: { locale: string } }) {
+  return getAuthors(toLocale(params.locale)).map((author) => ({
+    id: author.id,
+  }));
+}
+
+export async function generateMetadata({ params }: PageProps) {
+  const { locale: localeParam, id } = await params;
+  const locale = toLocale(localeParam);
+  const { archive } = getMessages(locale).blog;
+  const author = getAuthorById(id);
+
+  if (!author) {
+    return {
+      title: archive.authorNotFound,
+    };
+  }
+
+  return {
+    title: archive.authorTitle(author.name),
+    description: archive.authorMetaDescription(author.name, getPostsByAuthor(author.id, locale).length),
+    alternates: {
+      canonical: getAuthorHref(author.id, locale),
+      languages: languageAlternates(getAuthorPaths(author.id)),
+    },
+    openGraph: {
+      type: "profile",
+      url: getAuthorHref(author.id, locale),
+      title: author.name,
+      description: localize(author.bio, locale),
+      ...(author.avatar && { images: [author.avatar] }),
+    },
+  };
+}
+
+export default async function AuthorPage({ params }: PageProps) {
+  const { locale: localeParam, id } = await params;
+  const locale = toLocale(localeParam);
+  const { archive } = getMessages(locale).blog;
+  const author = getAuthorById(id);
+  const posts = author ? getPostsByAuthor(author.id, locale) : [];
+
+  if (!author || posts.length === 0) {
+    notFound();
+  }
+
+  return (
+    <PostArchive
+      locale={locale}
+      languagePaths={getAuthorPaths(author.id)}
+      eyebrow={archive.author}
+      title={author.name}
+      description={localize(author.bio, locale)}
+      posts={posts}
+      terms={getAuthors(locale).map((other) => ({
+        name: other.name,
+        slug: other.id,
+        count: getPostsByAuthor(other.id, locale).length,
+      }))}
+      activeSlug={author.id}
+      basePath={localizedPath(locale, "/blog/author")}
+    >
+      <div className="flex flex-wrap items-center gap-6 mb-8">
+        <AuthorAvatar author={author} size="lg" />
+        <div className="space-y-3">
+          <p className="text-foreground font-semibold text-lg">{localize(author.role, locale)}</p>
+          <AuthorSocials author={author} locale={locale} />
+        </div>
+      </div>
+    </PostArchive>
+  );
+}
@@ -0,0 +1,37 @@
+import { getCategories, getCategoryBySlug, getPostsByCategory } from '@/lib/blog'
+import { buildRssFeed, categoryFeedOptions, FEED_CONTENT_TYPES } from '@/lib/feed'
+import { LOCALES, toLocale } from '@/lib/i18n'
+
+interface RouteContext {
+  params: Promise<{
+    locale: string
+    category: string
+  }>
+}
+
+export const dynamic = 'force-static'
+export const dynamicParams = false
+
+// Ogni lingua ha le sue categorie
+export function generateStaticParams() {
+  return LOCALES.flatMap((locale) =>
+    getCategories(locale).map((category) => ({
+      locale,
+      category: category.slug,
+    }))
+  )
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { locale: localeParam, category: slug } = await params
+  const locale = toLocale(localeParam)
+  const category = getCategoryBySlug(slug, locale)
+
+  if (!category) {
+    return new Response('Not Found', { status: 404 })
+  }
+
+  return new Response(buildRssFeed(getPostsByCategory(slug, locale), categoryFeedOptions(category, locale)), {
+    headers: { 'Content-Type': FEED_CONTENT_TYPES.rss },
+  })
+}
@@ -0,0 +1,69 @@
+import { notFound } from "next/navigation";
+import PostArchive from "@/components/blog/PostArchive";
+import { getCategories, getCategoryBySlug, getCategoryHref, getCategoryPaths, getPostsByCategory } from "@/lib/blog";
+import { categoryFeedOptions, feedAlternates } from "@/lib/feed";
+import { getMessages, languageAlternates, localizedPath, toLocale } from "@/lib/i18n";
+
+interface PageProps {
+  params: Promise<{
+    locale: string;
+    category: string;
+  }>;
+}
+
+export const dynamicParams = false;
+
+export async function generateStaticParams({ params }: { params: { locale: string } }) {
+  return getCategories(toLocale(params.locale)).map((category) => ({
+    category: category.slug,
+  }));
+}
+
+export async function generateMetadata({ params }: PageProps) {
+  const { locale: localeParam, category: slug } = await params;
+  const locale = toLocale(localeParam);
+  const { archive } = getMessages(locale).blog;
+  const category = getCategoryBySlug(slug, locale);
+
+  if (!category) {
+    return {
+      title: archive.categoryNotFound,
+    };
+  }
+
+  return {
+    title: archive.categoryTitle(category.name),
+    description: archive.categoryMetaDescription(category.name, category.count),
+    alternates: {
+      canonical: getCategoryHref(category.slug, locale),
+      languages: languageAlternates(getCategoryPaths(category.slug)),
+      types: feedAlternates(categoryFeedOptions(category, locale)),
+    },
+  };
+}
+
+export default async function CategoryPage({ params }: PageProps) {
+  const { locale: localeParam, category: slug } = await params;
+  const locale = toLocale(localeParam);
+  const { archive } = getMessages(locale).blog;
+  const category = getCategoryBySlug(slug, locale);
+
+  if (!category) {
+    notFound();
+  }
+
+  return (
+    <PostArchive
+      locale={locale}
+      languagePaths={getCategoryPaths(category.slug)}
+      eyebrow={archive.category}
+      title={category.name}
+      description={archive.categoryDescription(category.name)}
+      posts={getPostsByCategory(category.slug, locale)}
+      terms={getCategories(locale)}
+      activeSlug={category.slug}
+      basePath={localizedPath(locale, "/blog/category")}
+      feedHref={`${getCategoryHref(category.slug, locale)}/feed.xml`}
+    />
+  );
+}
@@ -0,0 +1,49 @@
+import type { Metadata } from "next";
+import BlogIndex from "@/components/blog/BlogIndex";
+import { PaginationLinks } from "@/components/blog/Pagination";
+import { BlogStructuredData } from "@/components/StructuredData";
+import { getBlogPageHref, getCategories, getLocalePosts, getPagePosts, getTotalPages } from "@/lib/blog";
+import { blogFeedOptions, feedAlternates } from "@/lib/feed";
+import { getMessages, sharedAlternates, toLocale } from "@/lib/i18n";
+
+interface PageProps {
+  params: Promise<{
+    locale: string;
+  }>;
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const locale = toLocale((await params).locale);
+  const { blog } = getMessages(locale);
+
+  return {
+    title: blog.metaTitle,
+    description: blog.intro,
+    alternates: {
+      canonical: getBlogPageHref(1, locale),
+      languages: sharedAlternates("/blog"),
+      types: feedAlternates(blogFeedOptions(locale)),
+    },
+  };
+}
+
+export default async function BlogPage({ params }: PageProps) {
+  const locale = toLocale((await params).locale);
+  const getHref = (page: number) => getBlogPageHref(page, locale);
+  const totalPages = getTotalPages(locale);
+
+  return (
+    <>
+      <PaginationLinks currentPage={1} totalPages={totalPages} getHref={getHref} />
+      <BlogStructuredData locale={locale} />
+      <BlogIndex
+        locale={locale}
+        page={1}
+        posts={getPagePosts(locale, 1)}
+        totalPages={totalPages}
+        totalPosts={getLocalePosts(locale).length}
+        categories={getCategories(locale)}
+      />
+    </>
+  );
+}
@@ -0,0 +1,79 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import BlogIndex from "@/components/blog/BlogIndex";
+import { PaginationLinks } from "@/components/blog/Pagination";
+import { BlogStructuredData } from "@/components/StructuredData";
+import { getBlogPageHref, getCategories, getLocalePosts, getPagePosts, getTotalPages } from "@/lib/blog";
+import { blogFeedOptions, feedAlternates } from "@/lib/feed";
+import { getMessages, Locale, toLocale } from "@/lib/i18n";
+
+interface PageProps {
+  params: Promise<{
+    locale: string;
+    page: string;
+  }>;
+}
+
+export const dynamicParams = false;
+
+// La pagina 1 è servita da /it/blog; ogni lingua ha il suo numero di pagine
+export async function generateStaticParams({ params }: { params: { locale: string } }) {
+  return Array.from({ length: getTotalPages(toLocale(params.locale)) - 1 }, (_, i) => ({
+    page: String(i + 2),
+  }));
+}
+
+function parsePage(value: string, locale: Locale) {
+  const page = Number(value);
+  return Number.isInteger(page) && page >= 2 && page <= getTotalPages(locale) ? page : null;
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { locale: localeParam, page: pageParam } = await params;
+  const locale = toLocale(localeParam);
+  const { blog } = getMessages(locale);
+  const page = parsePage(pageParam, locale);
+
+  if (!page) {
+    return {
+      title: blog.pageNotFound,
+    };
+  }
+
+  return {
+    title: blog.pageTitle(page),
+    description: blog.pageDescription(page, getTotalPages(locale)),
+    alternates: {
+      canonical: getBlogPageHref(page, locale),
+      types: feedAlternates(blogFeedOptions(locale)),
+    },
+  };
+}
+
+export default async function BlogPaginatedPage({ params }: PageProps) {
+  const { locale: localeParam, page: pageParam } = await params;
+  const locale = toLocale(localeParam);
+  const page = parsePage(pageParam, locale);
+
+  if (!page) {
+    notFound();
+  }
+
+  const getHref = (target: number) => getBlogPageHref(target, locale);
+  const totalPages = getTotalPages(locale);
+
+  return (
+    <>
+      <PaginationLinks currentPage={page} totalPages={totalPages} getHref={getHref} />
+      <BlogStructuredData locale={locale} />
+      <BlogIndex
+        locale={locale}
+        page={page}
+        posts={getPagePosts(locale, page)}
+        totalPages={totalPages}
+        totalPosts={getLocalePosts(locale).length}
+        categories={getCategories(locale)}
+      />
+    </>
+  );
+}
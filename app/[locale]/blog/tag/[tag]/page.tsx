@@ -0,0 +1,66 @@
+import { notFound } from "next/navigation";
+import PostArchive from "@/components/blog/PostArchive";
+import { getPostsByTag, getTagBySlug, getTagHref, getTagPaths, getTags } from "@/lib/blog";
+import { getMessages, languageAlternates, localizedPath, toLocale } from "@/lib/i18n";
+
+interface PageProps {
+  params: Promise<{
+    locale: string;
+    tag: string;
+  }>;
+}
+
+export const dynamicParams = false;
+
+export async function generateStaticParams({ params }: { params: { locale: string } }) {
+  return getTags(toLocale(params.locale)).map((tag) => ({
+    tag: tag.slug,
+  }));
+}
+
+export async function generateMetadata({ params }: PageProps) {
+  const { locale: localeParam, tag: slug } = await params;
+  const locale = toLocale(localeParam);
+  const { archive } = getMessages(locale).blog;
+  const tag = getTagBySlug(slug, locale);
+
+  if (!tag) {
+    return {
+      title: archive.tagNotFound,
+    };
+  }
+
+  return {
+    title: archive.tagTitle(tag.name),
+    description: archive.tagMetaDescription(tag.name, tag.count),
+    alternates: {
+      canonical: getTagHref(tag.slug, locale),
+      languages: languageAlternates(getTagPaths(tag.slug)),
+    },
+  };
+}
+
+export default async function TagPage({ params }: PageProps) {
+  const { locale: localeParam, tag: slug } = await params;
+  const locale = toLocale(localeParam);
+  const { archive } = getMessages(locale).blog;
+  const tag = getTagBySlug(slug, locale);
+
+  if (!tag) {
+    notFound();
+  }
+
+  return (
+    <PostArchive
+      locale={locale}
+      languagePaths={getTagPaths(tag.slug)}
+      eyebrow={archive.tag}
+      title={`#${tag.name}`}
+      description={archive.tagDescription(tag.name)}
+      posts={getPostsByTag(tag.slug, locale)}
+      terms={getTags(locale)}
+      activeSlug={tag.slug}
+      basePath={localizedPath(locale, "/blog/tag")}
+    />
+  );
+}
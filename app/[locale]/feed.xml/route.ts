@@ -0,0 +1,23 @@
+import { getSortedPosts } from '@/lib/blog'
+import { buildRssFeed, blogFeedOptions, FEED_CONTENT_TYPES } from '@/lib/feed'
+import { LOCALES, toLocale } from '@/lib/i18n'
+
+interface RouteContext {
+  params: Promise<{
+    locale: string
+  }>
+}
+
+export const dynamic = 'force-static'
+export const dynamicParams = false
+
+export function generateStaticParams() {
+  return LOCALES.map((locale) => ({ locale }))
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const locale = toLocale((await params).locale)
+  return new Response(buildRssFeed(getSortedPosts(locale), blogFeedOptions(locale)), {
+    headers: { 'Content-Type': FEED_CONTENT_TYPES.rss },
+  })
+}
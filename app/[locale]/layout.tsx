@@ -0,0 +1,154 @@
+import type { Metadata, Viewport } from "next";
+import { notFound } from "next/navigation";
+import { Geist, Geist_Mono } from "next/font/google";
+import { SpeedInsights } from "@vercel/speed-insights/next";
+import { Analytics } from "@vercel/analytics/next";
+import { WebsiteStructuredData, PersonStructuredData } from "@/components/StructuredData";
+import { blogFeedOptions, feedAlternates } from "@/lib/feed";
+import { getMessages, isLocale, localeConfig, LOCALES, localizedPath } from "@/lib/i18n";
+import { themeColors, themeScript, THEMES } from "@/lib/theme";
+import "../globals.css";
+
+const geistSans = Geist({
+  variable: "--font-geist-sans",
+  subsets: ["latin"],
+});
+
+const geistMono = Geist_Mono({
+  variable: "--font-geist-mono",
+  subsets: ["latin"],
+});
+
+interface LayoutProps {
+  children: React.ReactNode;
+  params: Promise<{
+    locale: string;
+  }>;
+}
+
+// Solo /it e /en: ogni altro prefisso è un 404
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return LOCALES.map((locale) => ({ locale }));
+}
+
+// Colore della barra del browser per ciascun tema di sistema
+export const viewport: Viewport = {
+  width: "device-width",
+  initialScale: 1,
+  maximumScale: 1,
+  userScalable: false,
+  colorScheme: "light dark",
+  themeColor: THEMES.map((theme) => ({
+    media: `(prefers-color-scheme: ${theme})`,
+    color: themeColors[theme],
+  })),
+};
+
+export async function generateMetadata({ params }: Pick<LayoutProps, "params">): Promise<Metadata> {
+  const { locale } = await params;
+  if (!isLocale(locale)) return {};
+  const { meta } = getMessages(locale);
+
+  return {
+    metadataBase: new URL('https://lradev.app'),
+    title: {
+      default: meta.title,
+      template: "%s | Luca Altimare"
+    },
+    description: meta.description,
+    keywords: ["Backend Developer", "Python", "PHP", "Django", "FastAPI", "Clean Architecture", "AI", "Luca Altimare"],
+    authors: [{ name: "Luca Altimare" }],
+    creator: "Luca Altimare",
+    publisher: "Luca Altimare",
+
+    // Open Graph
+    openGraph: {
+      type: 'website',
+      locale: localeConfig[locale].openGraph,
+      alternateLocale: LOCALES.filter((other) => other !== locale).map((other) => localeConfig[other].openGraph),
+      url: localizedPath(locale),
+      siteName: 'Luca Altimare - Backend Developer',
+      title: meta.title,
+      description: meta.shortDescription,
+      images: [
+        {
+          url: '/icon.png',
+          width: 512,
+          height: 512,
+          alt: meta.logoAlt,
+        }
+      ],
+    },
+
+    // Twitter Card
+    twitter: {
+      card: 'summary_large_image',
+      title: meta.title,
+      description: meta.shortDescription,
+      images: ['/icon.png'],
+      creator: '@lradev',
+    },
+
+    // Icons
+    icons: {
+      icon: [
+        { url: '/favicon.ico' },
+        { url: '/icon.png', type: 'image/png' },
+      ],
+      apple: [
+        { url: '/apple-icon.png', type: 'image/png' },
+      ],
+    },
+
+    // Feed RSS, Atom e JSON (auto-discovery per i feed reader)
+    alternates: {
+      types: feedAlternates(blogFeedOptions(locale)),
+    },
+
+    appleWebApp: {
+      capable: true,
+      statusBarStyle: "black-translucent",
+      title: "LRA Portfolio",
+    },
+    // Verification for Google Search Console
+    verification: {
+      google: process.env.NEXT_PUBLIC_GOOGLE_SITE_VERIFICATION,
+    },
+  };
+}
+
+export default async function RootLayout({ children, params }: Readonly<LayoutProps>) {
+  const { locale } = await params;
+  if (!isLocale(locale)) notFound();
+
+  return (
+    // La classe del tema su <html> la aggiunge themeScript prima dell'idratazione
+    <html lang={locale} suppressHydrationWarning>
+      <head>
+        <script dangerouslySetInnerHTML={{ __html: themeScript }} />
+        <WebsiteStructuredData locale={locale} />
+        <PersonStructuredData />
+        {/* Google Tag Manager */}
+        <script dangerouslySetInnerHTML={{ __html: `(function(w,d,s,l,i){w[l]=w[l]||[];w[l].push({'gtm.start':
+new Date().getTime(),event:'gtm.js'});var f=d.getElementsByTagName(s)[0],
+j=d.createElement(s),dl=l!='dataLayer'?'&l='+l:'';j.async=true;j.src=
+'https://www.googletagmanager.com/gtm.js?id='+i+dl;f.parentNode.insertBefore(j,f);
+})(window,document,'script','dataLayer','GTM-5DVNN8BF');` }} />
+        {/* End Google Tag Manager */}
+      </head>
+      <body
+        className={`${geistSans.variable} ${geistMono.variable} antialiased`}
+      >
+        {/* Google Tag Manager (noscript) */}
+        <noscript><iframe src="https://www.googletagmanager.com/ns.html?id=GTM-5DVNN8BF"
+        height="0" width="0" style={{display:'none', visibility:'hidden'}}></iframe></noscript>
+        {/* End Google Tag Manager (noscript) */}
+        {children}
+        <SpeedInsights />
+        <Analytics />
+      </body>
+    </html>
+  );
+}
@@ -0,0 +1,70 @@
+import type { Metadata } from "next";
+import HeroSection from "@/components/portfolio/HeroSection";
+import TechStack from "@/components/portfolio/TechStack";
+import SkillsSection from "@/components/portfolio/SkillStack";
+import ProjectsSection from "@/components/portfolio/ProjectsSection";
+import ContactSection from "@/components/portfolio/ContactSection";
+import FloatingTags from "@/components/portfolio/FloatingTags";
+import Navbar from "@/components/portfolio/Navbar";
+import { getMessages, localizedPath, sharedAlternates, toLocale } from "@/lib/i18n";
+import { getContactLinks, getFloatingTags, getSkills, getTechCategories } from "@/lib/portfolio";
+import { getFeaturedProjects, toProjectSummary } from "@/lib/projects";
+
+interface PageProps {
+  params: Promise<{
+    locale: string;
+  }>;
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const locale = toLocale((await params).locale);
+  return {
+    alternates: {
+      canonical: localizedPath(locale),
+      languages: sharedAlternates("/"),
+    },
+  };
+}
+
+export default async function Home({ params }: PageProps) {
+  const locale = toLocale((await params).locale);
+  const messages = getMessages(locale);
+
+  return (
+    <>
+      <style>{`
+        html {
+          scroll-behavior: smooth;
+        }
+      `}</style>
+      <div className="min-h-screen bg-background text-foreground overflow-x-hidden">
+      {/* Navbar */}
+      <Navbar locale={locale} />
+
+      {/* Floating Tags */}
+      <FloatingTags tags={getFloatingTags()} />
+
+      {/* Subtle Grid Pattern */}
+      <div
+        className="fixed inset-0 opacity-[0.015] pointer-events-none"
+        style={{
+          backgroundImage: `url("data:image/svg+xml,%3Csvg width='60' height='60' viewBox='0 0 60 60' xmlns='http://www.w3.org/2000/svg'%3E%3Cg fill='none' fill-rule='evenodd'%3E%3Cg fill='%23ffffff' fill-opacity='1'%3E%3Cpath d='M36 34v-4h-2v4h-4v2h4v4h2v-4h4v-2h-4zm0-30V0h-2v4h-4v2h4v4h2V6h4V4h-4zM6 34v-4H4v4H0v2h4v4h2v-4h4v-2H6zM6 4V0H4v4H0v2h4v4h2V6h4V4H6z'/%3E%3C/g%3E%3C/g%3E%3C/svg%3E")`,
+        }}
+      />
+
+      <HeroSection locale={locale} />
+      <TechStack locale={locale} techCategories={getTechCategories()} />
+      <SkillsSection locale={locale} skills={getSkills()} />
+      <ProjectsSection locale={locale} projects={getFeaturedProjects(locale).map(toProjectSummary)} />
+      <ContactSection locale={locale} contactLinks={getContactLinks()} />
+
+      {/* Footer */}
+      <footer className="py-8 text-center border-t border-border">
+        <p className="text-subtle-foreground/70 text-sm">
+          © {new Date().getFullYear()} · {messages.footer.tagline}
+        </p>
+      </footer>
+      </div>
+    </>
+  );
+}
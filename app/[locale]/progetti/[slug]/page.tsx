@@ -0,0 +1,233 @@
+import type { Metadata } from "next";
+import Image from "next/image";
+import { notFound } from "next/navigation";
+import Link from "next/link";
+import { ArrowLeft, ArrowUpRight, BookOpen, Github, Globe } from "lucide-react";
+import Navbar from "@/components/portfolio/Navbar";
+import MarkdownContent, { proseClassName } from "@/components/blog/MarkdownContent";
+import { ProjectStructuredData } from "@/components/StructuredData";
+import { slugify } from "@/lib/blog";
+import { formatDate, getMessages, languageAlternates, localeConfig, toLocale } from "@/lib/i18n";
+import {
+  getProjectBySlug,
+  getProjectHref,
+  getProjectsHref,
+  getProjectTranslationPaths,
+  getSortedProjects,
+} from "@/lib/projects";
+import { absoluteUrl, siteConfig } from "@/lib/site";
+import "katex/dist/katex.min.css";
+import "../../blog/blog.css";
+
+interface PageProps {
+  params: Promise<{
+    locale: string;
+    slug: string;
+  }>;
+}
+
+export const dynamicParams = false;
+
+export async function generateStaticParams({ params }: { params: { locale: string } }) {
+  return getSortedProjects(toLocale(params.locale)).map((project) => ({
+    slug: project.slug,
+  }));
+}
+
+const linkIcons = {
+  live: Globe,
+  repository: Github,
+  article: BookOpen,
+};
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { locale: localeParam, slug } = await params;
+  const locale = toLocale(localeParam);
+  const project = getProjectBySlug(slug, locale);
+
+  if (!project) {
+    return {
+      title: getMessages(locale).projects.notFound,
+    };
+  }
+
+  return {
+    title: project.title,
+    description: project.summary,
+    keywords: project.stack,
+    alternates: {
+      canonical: getProjectHref(project),
+      languages: languageAlternates(getProjectTranslationPaths(project)),
+    },
+    openGraph: {
+      type: "article",
+      locale: localeConfig[locale].openGraph,
+      url: getProjectHref(project),
+      siteName: siteConfig.name,
+      title: project.title,
+      description: project.summary,
+      ...(project.cover && { images: [project.cover] }),
+    },
+  };
+}
+
+export default async function ProjectPage({ params }: PageProps) {
+  const { locale: localeParam, slug } = await params;
+  const locale = toLocale(localeParam);
+  const project = getProjectBySlug(slug, locale);
+
+  if (!project) {
+    notFound();
+  }
+
+  const messages = getMessages(locale).projects;
+  const details = [
+    { label: messages.client, value: project.client },
+    { label: messages.role, value: project.role },
+    { label: messages.year, value: formatDate(project.date, locale, { year: "numeric" }) },
+  ].filter((detail): detail is { label: string; value: string } => Boolean(detail.value));
+
+  return (
+    <>
+      <ProjectStructuredData
+        title={project.title}
+        description={project.summary}
+        dateCreated={project.date}
+        slug={project.slug}
+        locale={locale}
+        stack={project.stack}
+        image={project.cover ? absoluteUrl(project.cover) : undefined}
+        links={project.links.filter((link) => link.kind !== "article").map((link) => link.href)}
+      />
+      <Navbar locale={locale} languagePaths={getProjectTranslationPaths(project)} />
+
+      {/* Hero Section */}
+      <div className="relative bg-gradient-to-b from-background via-card to-background border-b border-border pt-24">
+        <div className="absolute inset-0 bg-[linear-gradient(to_right,#80808012_1px,transparent_1px),linear-gradient(to_bottom,#80808012_1px,transparent_1px)] bg-[size:24px_24px]" />
+
+        <div className="relative max-w-5xl mx-auto px-6 py-12">
+          <Link
+            href={getProjectsHref(locale)}
+            className="inline-flex items-center gap-2 text-muted-foreground hover:text-accent transition-colors mb-8 group"
+          >
+            <ArrowLeft className="w-4 h-4 group-hover:-translate-x-1 transition-transform" />
+            <span className="font-medium">{messages.backToProjects}</span>
+          </Link>
+
+          <h1 className="text-4xl md:text-6xl font-extrabold mb-6 leading-tight">
+            <span className="bg-gradient-to-r from-foreground via-blue-700 to-purple-700 dark:via-blue-100 dark:to-purple-100 bg-clip-text text-transparent">
+              {project.title}
+            </span>
+          </h1>
+
+          <p className="text-xl text-foreground/80 leading-relaxed max-w-3xl border-l-4 border-blue-500 pl-6 py-2 mb-8">
+            {project.summary}
+          </p>
+
+          <dl className="flex flex-wrap gap-x-10 gap-y-4">
+            {details.map((detail) => (
+              <div key={detail.label}>
+                <dt className="text-sm text-subtle-foreground">{detail.label}</dt>
+                <dd className="text-foreground font-medium">{detail.value}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      </div>
+
+      <div className="min-h-screen bg-background text-foreground py-16 px-6">
+        <div className="max-w-5xl mx-auto space-y-16">
+          {/* Cover */}
+          {project.cover && (
+            <Image
+              src={project.cover}
+              alt={messages.coverAlt(project.title)}
+              width={1200}
+              height={630}
+              priority
+              className="w-full h-auto rounded-2xl border border-border"
+            />
+          )}
+
+          {/* Problem and architecture */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <section className="bg-card/50 border border-border rounded-2xl p-8">
+              <h2 className="text-sm font-medium tracking-widest uppercase text-accent mb-4">{messages.problem}</h2>
+              <p className="text-foreground/80 leading-relaxed">{project.problem}</p>
+            </section>
+            <section className="bg-card/50 border border-border rounded-2xl p-8">
+              <h2 className="text-sm font-medium tracking-widest uppercase text-purple-400 mb-4">{messages.architecture}</h2>
+              <p className="text-foreground/80 leading-relaxed">{project.architecture}</p>
+            </section>
+          </div>
+
+          {/* Stack */}
+          <section>
+            <h2 className="text-2xl font-bold mb-6">{messages.stack}</h2>
+            <div className="flex flex-wrap gap-2">
+              {project.stack.map((technology) => (
+                <Link
+                  key={technology}
+                  href={getProjectsHref(locale, slugify(technology))}
+                  className="px-4 py-2 bg-muted/80 border border-border-strong text-foreground/80 rounded-full hover:border-blue-500/50 hover:text-accent transition-colors"
+                >
+                  {technology}
+                </Link>
+              ))}
+            </div>
+          </section>
+
+          {/* Outcomes */}
+          {project.outcomes.length > 0 && (
+            <section>
+              <h2 className="text-2xl font-bold mb-6">{messages.outcomes}</h2>
+              <dl className="grid grid-cols-1 sm:grid-cols-3 gap-6">
+                {project.outcomes.map((outcome) => (
+                  <div
+                    key={outcome.label}
+                    className="bg-gradient-to-br from-card/80 to-muted/50 border border-border-strong/50 rounded-2xl p-6"
+                  >
+                    <dd className="text-4xl font-bold bg-gradient-to-r from-blue-400 to-purple-500 bg-clip-text text-transparent mb-2">
+                      {outcome.value}
+                    </dd>
+                    <dt className="text-muted-foreground">{outcome.label}</dt>
+                  </div>
+                ))}
+              </dl>
+            </section>
+          )}
+
+          {/* Case study */}
+          <div className={`${proseClassName} prose-lg max-w-3xl [&_.anchor]:hidden`}>
+            <MarkdownContent html={project.body.html} locale={locale} />
+          </div>
+
+          {/* Links */}
+          {project.links.length > 0 && (
+            <section>
+              <h2 className="text-2xl font-bold mb-6">{messages.links}</h2>
+              <div className="flex flex-wrap gap-4">
+                {project.links.map((link) => {
+                  const Icon = linkIcons[link.kind];
+                  const external = /^https?:\/\//.test(link.href);
+                  return (
+                    <a
+                      key={link.href}
+                      href={link.href}
+                      {...(external && { target: "_blank", rel: "noopener noreferrer" })}
+                      className="inline-flex items-center gap-3 px-6 py-3 bg-card/50 border border-border rounded-xl text-foreground/80 hover:text-foreground hover:border-blue-500/50 transition-colors"
+                    >
+                      <Icon className="w-5 h-5 text-accent" />
+                      {messages.linkKinds[link.kind]}
+                      {external && <ArrowUpRight className="w-4 h-4 text-subtle-foreground" />}
+                    </a>
+                  );
+                })}
+              </div>
+            </section>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,43 @@
+import type { Metadata } from "next";
+import ProjectIndex from "@/components/projects/ProjectIndex";
+import { getMessages, sharedAlternates, toLocale } from "@/lib/i18n";
+import {
+  getProjectsHref,
+  getProjectStacks,
+  getProjectSummariesByStack,
+  getSortedProjects,
+  toProjectSummary,
+} from "@/lib/projects";
+
+interface PageProps {
+  params: Promise<{
+    locale: string;
+  }>;
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const locale = toLocale((await params).locale);
+  const { projects } = getMessages(locale);
+
+  return {
+    title: projects.metaTitle,
+    description: projects.metaDescription,
+    alternates: {
+      canonical: getProjectsHref(locale),
+      languages: sharedAlternates("/progetti"),
+    },
+  };
+}
+
+export default async function ProjectsPage({ params }: PageProps) {
+  const locale = toLocale((await params).locale);
+
+  return (
+    <ProjectIndex
+      locale={locale}
+      projects={getSortedProjects(locale).map(toProjectSummary)}
+      stacks={getProjectStacks(locale)}
+      projectsByStack={getProjectSummariesByStack(locale)}
+    />
+  );
+}
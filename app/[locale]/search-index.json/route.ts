@@ -0,0 +1,22 @@
+import { getSortedPosts } from '@/lib/blog'
+import { LOCALES, toLocale } from '@/lib/i18n'
+import { buildSearchIndex } from '@/lib/search'
+
+interface RouteContext {
+  params: Promise<{
+    locale: string
+  }>
+}
+
+// Generato una sola volta in fase di build per ogni lingua e servito come file statico
+export const dynamic = 'force-static'
+export const dynamicParams = false
+
+export function generateStaticParams() {
+  return LOCALES.map((locale) => ({ locale }))
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const locale = toLocale((await params).locale)
+  return Response.json(buildSearchIndex(getSortedPosts(locale)))
+}
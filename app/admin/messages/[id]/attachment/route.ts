@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { isAdminAuthenticated } from '@/lib/admin-auth';
+import { getInboxStore } from '@/lib/inbox';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Download dell'allegato di un messaggio, sempre come file e mai inline
+export async function GET(_request: Request, { params }: RouteContext) {
+  if (!(await isAdminAuthenticated())) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const attachment = await getInboxStore().getAttachment(id).catch(() => undefined);
+  if (!attachment) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  return new Response(new Uint8Array(attachment.content), {
+    headers: {
+      'Content-Type': 'application/octet-stream',
+      'Content-Disposition': `attachment; filename="${attachment.filename}"; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`,
+      'Content-Length': String(attachment.content.length),
+      'X-Content-Type-Options': 'nosniff',
+    },
+  });
+}
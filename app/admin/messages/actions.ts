@@ -0,0 +1,56 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { redirect } from "next/navigation";
+import { endAdminSession, isAdminAuthenticated, startAdminSession } from "@/lib/admin-auth";
+import { getInboxStore, isDeliveryRetryable } from "@/lib/inbox";
+import { deliverSubmission, retryPendingDeliveries } from "@/app/api/contact/delivery";
+
+const MESSAGES_PATH = "/admin/messages";
+
+async function requireAdmin() {
+  if (!(await isAdminAuthenticated())) {
+    redirect(MESSAGES_PATH);
+  }
+}
+
+export async function login(formData: FormData) {
+  const password = formData.get("password");
+  const result = await startAdminSession(typeof password === "string" ? password : "");
+  redirect(result === "success" ? MESSAGES_PATH : `${MESSAGES_PATH}?error=${result}`);
+}
+
+export async function logout() {
+  await endAdminSession();
+  redirect(MESSAGES_PATH);
+}
+
+export async function toggleHandled(formData: FormData) {
+  await requireAdmin();
+
+  const id = String(formData.get("id"));
+  const handled = formData.get("handled") === "true";
+  await getInboxStore().update(id, {
+    handled,
+    handledAt: handled ? new Date().toISOString() : undefined,
+  });
+
+  revalidatePath(MESSAGES_PATH);
+}
+
+export async function retryDelivery(formData: FormData) {
+  await requireAdmin();
+
+  const submission = await getInboxStore().get(String(formData.get("id")));
+  if (submission && isDeliveryRetryable(submission)) {
+    await deliverSubmission(submission);
+  }
+
+  revalidatePath(MESSAGES_PATH);
+}
+
+export async function retryAllDeliveries() {
+  await requireAdmin();
+  await retryPendingDeliveries();
+  revalidatePath(MESSAGES_PATH);
+}
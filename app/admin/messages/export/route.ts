@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { isAdminAuthenticated } from '@/lib/admin-auth';
+import { filterSubmissions, getInboxStore, parseInboxFilters, submissionsToCsv } from '@/lib/inbox';
+
+export const dynamic = 'force-dynamic';
+
+// Export dei messaggi filtrati in CSV (predefinito) o JSON
+export async function GET(request: Request) {
+  if (!(await isAdminAuthenticated())) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const submissions = filterSubmissions(await getInboxStore().list(), parseInboxFilters(searchParams));
+  const date = new Date().toISOString().slice(0, 10);
+
+  if (searchParams.get('format') === 'json') {
+    return new Response(JSON.stringify(submissions, null, 2), {
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="messages-${date}.json"`,
+      },
+    });
+  }
+
+  // BOM iniziale perché Excel riconosca l'UTF-8
+  return new Response(`\uFEFF${submissionsToCsv(submissions)}`, {
+    headers: {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="messages-${date}.csv"`,
+    },
+  });
+}
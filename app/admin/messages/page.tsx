@@ -0,0 +1,315 @@
+import type { Metadata } from "next";
+import { CheckCircle2, Circle, Download, LogOut, Mail, Paperclip, Phone, RefreshCw, Search, AlertTriangle, Clock } from "lucide-react";
+import { isAdminAuthenticated, isAdminConfigured } from "@/lib/admin-auth";
+import { BUDGET_RANGES, CONTACT_METHODS, optionLabel, PROJECT_TYPES, TIMELINES } from "@/lib/contact";
+import {
+  ContactSubmission,
+  filterSubmissions,
+  getInboxStore,
+  isDeliveryRetryable,
+  MAX_DELIVERY_ATTEMPTS,
+  parseInboxFilters,
+} from "@/lib/inbox";
+import { login, logout, retryAllDeliveries, retryDelivery, toggleHandled } from "./actions";
+
+export const metadata: Metadata = {
+  title: "Messaggi",
+  robots: {
+    index: false,
+    follow: false,
+  },
+};
+
+interface PageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+const STATUS_FILTERS = [
+  { value: "all", label: "Tutti" },
+  { value: "open", label: "Da gestire" },
+  { value: "handled", label: "Gestiti" },
+  { value: "failed", label: "Consegna fallita" },
+];
+
+const DELIVERY_BADGES: Record<ContactSubmission["status"], { label: string; className: string }> = {
+  sent: { label: "Inviato", className: "border-emerald-500/40 bg-emerald-500/10 text-emerald-400" },
+  pending: { label: "In attesa", className: "border-amber-500/40 bg-amber-500/10 text-amber-400" },
+  failed: { label: "Non consegnato", className: "border-red-500/40 bg-red-500/10 text-red-400" },
+};
+
+function formatDate(value: string) {
+  return new Date(value).toLocaleString("it-IT", {
+    dateStyle: "medium",
+    timeStyle: "short",
+    timeZone: "Europe/Rome",
+  });
+}
+
+function AdminShell({ children }: { children: React.ReactNode }) {
+  return (
+    <div className="min-h-screen bg-background text-foreground py-16 px-6">
+      <div className="max-w-5xl mx-auto">{children}</div>
+    </div>
+  );
+}
+
+const LOGIN_ERRORS: Record<string, string> = {
+  password: "Password non valida",
+  "too-many-attempts": "Troppi tentativi, riprova tra qualche minuto",
+};
+
+function LoginForm({ error }: { error: string | null }) {
+  return (
+    <AdminShell>
+      <form action={login} className="max-w-sm mx-auto mt-24 bg-card/50 border border-border rounded-2xl p-8 space-y-6">
+        <h1 className="text-2xl font-bold">Area riservata</h1>
+        <div>
+          <label htmlFor="admin-password" className="text-foreground/80 text-sm font-medium mb-2 block">Password</label>
+          <input
+            id="admin-password"
+            type="password"
+            name="password"
+            required
+            autoFocus
+            autoComplete="current-password"
+            className="w-full px-4 py-3 bg-muted/50 border border-border-strong rounded-xl text-foreground focus:outline-none focus:border-purple-500 transition-colors"
+          />
+        </div>
+        {error && LOGIN_ERRORS[error] && (
+          <p role="alert" className="text-red-400 text-sm">{LOGIN_ERRORS[error]}</p>
+        )}
+        <button
+          type="submit"
+          className="w-full px-6 py-3 bg-gradient-to-r from-blue-500 to-purple-600 text-white font-semibold rounded-xl hover:shadow-lg hover:shadow-purple-500/25 transition-all"
+        >
+          Accedi
+        </button>
+      </form>
+    </AdminShell>
+  );
+}
+
+export default async function AdminMessagesPage({ searchParams }: PageProps) {
+  const params = await searchParams;
+  const single = (name: string) => {
+    const value = params[name];
+    return typeof value === "string" ? value : null;
+  };
+
+  if (!isAdminConfigured()) {
+    return (
+      <AdminShell>
+        <p className="text-muted-foreground mt-24 text-center">
+          Imposta la variabile d&apos;ambiente <code className="text-emerald-400">ADMIN_PASSWORD</code> per abilitare l&apos;area messaggi.
+        </p>
+      </AdminShell>
+    );
+  }
+
+  if (!(await isAdminAuthenticated())) {
+    return <LoginForm error={single("error")} />;
+  }
+
+  const filters = parseInboxFilters({ get: single });
+  const allSubmissions = await getInboxStore().list();
+  const submissions = filterSubmissions(allSubmissions, filters);
+  const openCount = allSubmissions.filter((submission) => !submission.handled).length;
+  const retryableCount = allSubmissions.filter(
+    (submission) => isDeliveryRetryable(submission) && submission.attempts < MAX_DELIVERY_ATTEMPTS
+  ).length;
+
+  const exportQuery = new URLSearchParams({
+    ...(filters.query && { q: filters.query }),
+    ...(filters.status !== "all" && { status: filters.status }),
+  });
+  const exportHref = (format: "csv" | "json") =>
+    `/admin/messages/export?${new URLSearchParams([...exportQuery, ["format", format]])}`;
+
+  return (
+    <AdminShell>
+      {/* Header */}
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-10">
+        <div>
+          <h1 className="text-4xl font-bold mb-2">
+            Messaggi <span className="bg-gradient-to-r from-blue-400 to-purple-500 bg-clip-text text-transparent">ricevuti</span>
+          </h1>
+          <p className="text-muted-foreground">
+            {allSubmissions.length} in totale · {openCount} da gestire
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          {retryableCount > 0 && (
+            <form action={retryAllDeliveries}>
+              <button type="submit" className="inline-flex items-center gap-2 px-4 py-2 border border-amber-500/50 text-amber-400 rounded-xl hover:bg-amber-500/10 transition-colors text-sm">
+                <RefreshCw className="w-4 h-4" />
+                Ritenta consegne ({retryableCount})
+              </button>
+            </form>
+          )}
+          <a href={exportHref("csv")} className="inline-flex items-center gap-2 px-4 py-2 border border-border-strong text-foreground/80 rounded-xl hover:border-blue-500/50 hover:text-accent transition-colors text-sm">
+            <Download className="w-4 h-4" />
+            CSV
+          </a>
+          <a href={exportHref("json")} className="inline-flex items-center gap-2 px-4 py-2 border border-border-strong text-foreground/80 rounded-xl hover:border-blue-500/50 hover:text-accent transition-colors text-sm">
+            <Download className="w-4 h-4" />
+            JSON
+          </a>
+          <form action={logout}>
+            <button type="submit" aria-label="Esci" className="p-2 text-muted-foreground hover:text-foreground transition-colors">
+              <LogOut className="w-5 h-5" />
+            </button>
+          </form>
+        </div>
+      </div>
+
+      {/* Search and Filters */}
+      <form method="get" className="flex flex-col md:flex-row gap-4 mb-8">
+        <div className="relative flex-1">
+          <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-subtle-foreground" />
+          <input
+            type="search"
+            name="q"
+            defaultValue={filters.query}
+            placeholder="Cerca per nome, email o testo..."
+            className="w-full pl-12 pr-4 py-3 bg-card/50 border border-border rounded-xl text-foreground placeholder-subtle-foreground focus:outline-none focus:border-blue-500 transition-colors"
+          />
+        </div>
+        <select
+          name="status"
+          defaultValue={filters.status}
+          className="px-4 py-3 bg-card/50 border border-border rounded-xl text-foreground focus:outline-none focus:border-blue-500 transition-colors cursor-pointer min-w-[200px]"
+        >
+          {STATUS_FILTERS.map((filter) => (
+            <option key={filter.value} value={filter.value}>{filter.label}</option>
+          ))}
+        </select>
+        <button type="submit" className="px-6 py-3 bg-blue-500 hover:bg-blue-600 text-white rounded-xl transition-colors">
+          Filtra
+        </button>
+      </form>
+
+      {/* Messages */}
+      <div className="space-y-4">
+        {submissions.map((submission) => {
+          const badge = DELIVERY_BADGES[submission.status];
+          return (
+            <article
+              key={submission.id}
+              className={`bg-card/50 border rounded-2xl p-6 ${submission.handled ? "border-border opacity-70" : "border-border-strong"}`}
+            >
+              <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+                <div>
+                  <h2 className="text-lg font-semibold">{submission.name}</h2>
+                  <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+                    <a href={`mailto:${submission.email}`} className="inline-flex items-center gap-1.5 text-sm text-accent hover:text-accent/80 transition-colors">
+                      <Mail className="w-4 h-4" />
+                      {submission.email}
+                    </a>
+                    {submission.phone && (
+                      <a href={`tel:${submission.phone.replace(/[^\d+]/g, "")}`} className="inline-flex items-center gap-1.5 text-sm text-accent hover:text-accent/80 transition-colors">
+                        <Phone className="w-4 h-4" />
+                        {submission.phone}
+                      </a>
+                    )}
+                    {submission.contactMethod && (
+                      <span className="text-sm text-subtle-foreground">
+                        Preferisce: {optionLabel(CONTACT_METHODS, submission.contactMethod)}
+                      </span>
+                    )}
+                  </div>
+                </div>
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="inline-flex items-center gap-1.5 text-subtle-foreground">
+                    <Clock className="w-4 h-4" />
+                    {formatDate(submission.createdAt)}
+                  </span>
+                  <span className="px-2 py-0.5 border border-border-strong text-muted-foreground rounded-full uppercase text-xs">
+                    {submission.locale}
+                  </span>
+                  <span className={`px-3 py-0.5 border rounded-full text-xs font-medium ${badge.className}`}>
+                    {badge.label}
+                  </span>
+                </div>
+              </div>
+
+              {/* I messaggi salvati prima del form strutturato non hanno questi campi */}
+              {submission.projectType && (
+                <div className="flex flex-wrap gap-2 mb-4 text-xs">
+                  {[
+                    optionLabel(PROJECT_TYPES, submission.projectType),
+                    optionLabel(BUDGET_RANGES, submission.budget),
+                    optionLabel(TIMELINES, submission.timeline),
+                  ].map((label) => (
+                    <span key={label} className="px-3 py-1 bg-purple-500/10 border border-purple-500/30 text-purple-300 rounded-full">
+                      {label}
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              <p className="text-foreground/80 whitespace-pre-wrap leading-relaxed mb-4">{submission.message}</p>
+
+              {submission.attachment && (
+                <a
+                  href={`/admin/messages/${submission.id}/attachment`}
+                  className="inline-flex items-center gap-2 mb-4 px-3 py-2 border border-border-strong rounded-xl text-sm text-foreground/80 hover:border-blue-500/50 hover:text-accent transition-colors"
+                >
+                  <Paperclip className="w-4 h-4" />
+                  {submission.attachment.filename}
+                  <span className="text-subtle-foreground">{Math.ceil(submission.attachment.size / 1024)} KB</span>
+                </a>
+              )}
+
+              {submission.status !== "sent" && submission.lastError && (
+                <p className="flex items-start gap-2 text-sm text-red-400 mb-4">
+                  <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                  Tentativo {submission.attempts} di {MAX_DELIVERY_ATTEMPTS}: {submission.lastError}
+                </p>
+              )}
+
+              <div className="flex flex-wrap items-center gap-3">
+                <form action={toggleHandled}>
+                  <input type="hidden" name="id" value={submission.id} />
+                  <input type="hidden" name="handled" value={String(!submission.handled)} />
+                  <button type="submit" className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground transition-colors">
+                    {submission.handled ? (
+                      <>
+                        <CheckCircle2 className="w-4 h-4 text-emerald-400" />
+                        Gestito{submission.handledAt && ` il ${formatDate(submission.handledAt)}`} · Riapri
+                      </>
+                    ) : (
+                      <>
+                        <Circle className="w-4 h-4" />
+                        Segna come gestito
+                      </>
+                    )}
+                  </button>
+                </form>
+                {isDeliveryRetryable(submission) && (
+                  <form action={retryDelivery}>
+                    <input type="hidden" name="id" value={submission.id} />
+                    <button type="submit" className="inline-flex items-center gap-2 text-sm text-amber-400 hover:text-amber-300 transition-colors">
+                      <RefreshCw className="w-4 h-4" />
+                      Ritenta consegna
+                    </button>
+                  </form>
+                )}
+              </div>
+            </article>
+          );
+        })}
+      </div>
+
+      {/* Empty State */}
+      {submissions.length === 0 && (
+        <div className="text-center py-16">
+          <div className="text-6xl mb-4">📭</div>
+          <h3 className="text-xl font-semibold text-foreground mb-2">Nessun messaggio</h3>
+          <p className="text-subtle-foreground text-lg">
+            {allSubmissions.length > 0 ? "Prova a modificare i filtri di ricerca" : "I messaggi del form contatti appariranno qui"}
+          </p>
+        </div>
+      )}
+    </AdminShell>
+  );
+}
@@ -0,0 +1,126 @@
+import { createElement, ReactElement } from 'react';
+import { render } from '@react-email/components';
+import { optionLabel, PROJECT_TYPES } from '@/lib/contact';
+import {
+  ContactAttachmentFile,
+  ContactSubmission,
+  getInboxStore,
+  isDeliveryRetryable,
+  MAX_DELIVERY_ATTEMPTS,
+} from '@/lib/inbox';
+import { getMailTransport, mailConfig } from '@/lib/mail';
+import ContactConfirmation from './emails/ContactConfirmation';
+import ContactNotification from './emails/ContactNotification';
+import { confirmationMessages, resolveEmailLocale } from './emails/_shared/messages';
+
+type DeliverableSubmission = Omit<ContactSubmission, 'id' | 'status' | 'attempts' | 'handled' | 'attachment'>;
+
+// HTML e testo semplice dello stesso template
+async function renderEmail(element: ReactElement) {
+  const [html, text] = await Promise.all([
+    render(element),
+    render(element, { plainText: true }),
+  ]);
+  return { html, text };
+}
+
+/**
+ * Invia la notifica al proprietario e la conferma al visitatore.
+ * Lancia un errore solo se fallisce la notifica: la conferma è accessoria,
+ * il suo esito torna in `confirmationSent`.
+ */
+export async function sendContactEmails(submission: DeliverableSubmission, attachment?: ContactAttachmentFile) {
+  const { name, email, message, createdAt } = submission;
+  const locale = resolveEmailLocale(submission.locale);
+  const transport = getMailTransport();
+
+  const notification = await renderEmail(
+    createElement(ContactNotification, {
+      projectType: submission.projectType,
+      budget: submission.budget,
+      timeline: submission.timeline,
+      message,
+      name,
+      email,
+      contactMethod: submission.contactMethod,
+      phone: submission.phone,
+      locale,
+      receivedAt: createdAt,
+      attachment,
+    })
+  );
+
+  const result = await transport.send({
+    from: mailConfig.from,
+    to: mailConfig.contactTo,
+    // Il nome non contiene a capo (vedi validateContactForm), quindi è sicuro nell'header
+    subject: `Nuova richiesta: ${optionLabel(PROJECT_TYPES, submission.projectType)} · ${name}`,
+    replyTo: email,
+    ...notification,
+    ...(attachment && {
+      attachments: [{ filename: attachment.filename, content: attachment.content, contentType: attachment.contentType }],
+    }),
+  });
+
+  let confirmationSent = false;
+  try {
+    const confirmation = await renderEmail(
+      createElement(ContactConfirmation, { name, message, locale, receivedAt: createdAt })
+    );
+    await transport.send({
+      from: mailConfig.from,
+      to: email,
+      subject: confirmationMessages[locale].subject,
+      replyTo: mailConfig.contactTo,
+      ...confirmation,
+    });
+    confirmationSent = true;
+  } catch (error) {
+    console.error('Error sending confirmation email:', error);
+  }
+
+  return { notification: result, confirmationSent };
+}
+
+// Tenta la consegna e registra l'esito nell'archivio
+export async function deliverSubmission(submission: ContactSubmission) {
+  const store = getInboxStore();
+  const attempt = {
+    attempts: submission.attempts + 1,
+    lastAttemptAt: new Date().toISOString(),
+  };
+
+  // Durante l'invio il messaggio torna `pending`: un retry concorrente lo salta (isDeliveryRetryable)
+  if (submission.status !== 'pending') {
+    await store.update(submission.id, { status: 'pending', lastAttemptAt: attempt.lastAttemptAt });
+  }
+
+  try {
+    const attachment = submission.attachment ? await store.getAttachment(submission.id) : undefined;
+    const { confirmationSent } = await sendContactEmails(submission, attachment);
+    return await store.update(submission.id, { ...attempt, status: 'sent', lastError: undefined, confirmationSent });
+  } catch (error) {
+    console.error(`Error delivering contact submission ${submission.id}:`, error);
+    return await store.update(submission.id, {
+      ...attempt,
+      status: 'failed',
+      lastError: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+// Ritenta le consegne fallite o bloccate in sospeso, fino a MAX_DELIVERY_ATTEMPTS
+export async function retryPendingDeliveries() {
+  const submissions = await getInboxStore().list();
+  const retryable = submissions.filter(
+    (submission) => isDeliveryRetryable(submission) && submission.attempts < MAX_DELIVERY_ATTEMPTS
+  );
+
+  let sent = 0;
+  for (const submission of retryable) {
+    const updated = await deliverSubmission(submission);
+    if (updated?.status === 'sent') sent++;
+  }
+
+  return { attempted: retryable.length, sent, failed: retryable.length - sent };
+}
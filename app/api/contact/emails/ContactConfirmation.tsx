@@ -0,0 +1,57 @@
+import React from "react";
+import { Heading, Text } from "@react-email/components";
+import { siteConfig } from "@/lib/site";
+import EmailLayout, { emailStyles, MessageQuote } from "./_shared/EmailLayout";
+import { confirmationMessages, EmailLocale } from "./_shared/messages";
+
+export interface ContactConfirmationProps {
+  name: string;
+  message: string;
+  locale: EmailLocale;
+  receivedAt: string;
+  siteUrl?: string;
+}
+
+// Risposta automatica al visitatore, con la copia del messaggio inviato
+export default function ContactConfirmation({
+  name,
+  message,
+  locale,
+  receivedAt,
+  siteUrl = siteConfig.url,
+}: ContactConfirmationProps) {
+  const t = confirmationMessages[locale];
+  const sentOn = new Date(receivedAt).toLocaleString(t.dateLocale, {
+    dateStyle: "long",
+    timeStyle: "short",
+    timeZone: "Europe/Rome",
+  });
+
+  return (
+    <EmailLayout preview={t.preview} lang={locale} siteUrl={siteUrl} footer={t.footer}>
+      <Heading as="h1" style={{ color: "#111827", fontSize: "22px", margin: "0 0 20px" }}>
+        {t.greeting(name)}
+      </Heading>
+      <Text style={emailStyles.text}>{t.intro}</Text>
+
+      <Text style={emailStyles.label}>
+        {t.copyHeading} · {sentOn}
+      </Text>
+      <MessageQuote message={message} />
+
+      <Text style={emailStyles.text}>{t.replyHint}</Text>
+      <Text style={{ ...emailStyles.text, margin: 0 }}>
+        {t.signOff}
+        <br />
+        {siteConfig.author}
+      </Text>
+    </EmailLayout>
+  );
+}
+
+ContactConfirmation.PreviewProps = {
+  name: "Mario Rossi",
+  message: "Ciao Luca,\nvorrei un preventivo per un'API in Django con integrazione AI.\n\nGrazie!",
+  locale: "it",
+  receivedAt: "2025-12-08T10:30:00.000Z",
+} satisfies ContactConfirmationProps;
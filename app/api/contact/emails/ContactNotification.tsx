@@ -0,0 +1,131 @@
+import React from "react";
+import { Button, Column, Heading, Row, Section, Text } from "@react-email/components";
+import {
+  BUDGET_RANGES,
+  CONTACT_METHODS,
+  ContactFormData,
+  optionLabel,
+  PROJECT_TYPES,
+  TIMELINES,
+} from "@/lib/contact";
+import { siteConfig } from "@/lib/site";
+import EmailLayout, { emailStyles, MessageQuote } from "./_shared/EmailLayout";
+import { EmailLocale } from "./_shared/messages";
+
+export interface ContactNotificationProps extends ContactFormData {
+  locale: EmailLocale;
+  receivedAt: string;
+  attachment?: { filename: string; size: number };
+  siteUrl?: string;
+}
+
+function formatSize(bytes: number) {
+  return bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// Notifica al proprietario del sito per ogni nuova richiesta
+export default function ContactNotification({
+  projectType,
+  budget,
+  timeline,
+  message,
+  name,
+  email,
+  contactMethod,
+  phone,
+  locale,
+  receivedAt,
+  attachment,
+  siteUrl = siteConfig.url,
+}: ContactNotificationProps) {
+  const received = new Date(receivedAt).toLocaleString("it-IT", {
+    dateStyle: "full",
+    timeStyle: "short",
+    timeZone: "Europe/Rome",
+  });
+
+  const project = [
+    { label: "Tipo di progetto", value: optionLabel(PROJECT_TYPES, projectType) },
+    { label: "Budget", value: optionLabel(BUDGET_RANGES, budget) },
+    { label: "Tempistiche", value: optionLabel(TIMELINES, timeline) },
+  ];
+
+  const contact = [
+    { label: "Nome", value: name },
+    { label: "Email", value: email },
+    { label: "Contatto preferito", value: optionLabel(CONTACT_METHODS, contactMethod) },
+    ...(phone ? [{ label: "Telefono", value: phone }] : []),
+    { label: "Ricevuto", value: received },
+    { label: "Lingua", value: locale.toUpperCase() },
+  ];
+
+  return (
+    <EmailLayout
+      preview={`${name} · ${optionLabel(PROJECT_TYPES, projectType)} · ${optionLabel(BUDGET_RANGES, budget)}`}
+      lang="it"
+      siteUrl={siteUrl}
+      footer="Inviata dal form contatti di"
+    >
+      <Heading as="h1" style={{ color: "#111827", fontSize: "22px", margin: "0 0 24px" }}>
+        Nuova richiesta di contatto
+      </Heading>
+
+      {/* Riepilogo del progetto */}
+      <Section style={{ backgroundColor: "#eef2ff", borderRadius: "12px", padding: "16px 20px", margin: "0 0 24px" }}>
+        <Row>
+          {project.map((detail) => (
+            <Column key={detail.label} style={{ verticalAlign: "top", paddingRight: "12px" }}>
+              <Text style={emailStyles.label}>{detail.label}</Text>
+              <Text style={{ ...emailStyles.text, fontWeight: 600, margin: 0 }}>{detail.value}</Text>
+            </Column>
+          ))}
+        </Row>
+      </Section>
+
+      {contact.map((detail) => (
+        <Section key={detail.label} style={{ margin: "0 0 16px" }}>
+          <Text style={emailStyles.label}>{detail.label}</Text>
+          <Text style={{ ...emailStyles.text, margin: 0 }}>{detail.value}</Text>
+        </Section>
+      ))}
+
+      <Text style={{ ...emailStyles.label, marginTop: "24px" }}>Messaggio</Text>
+      <MessageQuote message={message} />
+
+      {attachment && (
+        <Text style={emailStyles.text}>
+          📎 {attachment.filename} ({formatSize(attachment.size)}) — in allegato a questa email
+        </Text>
+      )}
+
+      <Button
+        href={contactMethod === "phone" && phone ? `tel:${phone.replace(/[^\d+]/g, "")}` : `mailto:${email}`}
+        style={{
+          backgroundColor: "#4f46e5",
+          borderRadius: "10px",
+          color: "#ffffff",
+          fontSize: "15px",
+          fontWeight: 600,
+          padding: "12px 24px",
+          textDecoration: "none",
+        }}
+      >
+        {contactMethod === "phone" && phone ? `Chiama ${name}` : `Rispondi a ${name}`}
+      </Button>
+    </EmailLayout>
+  );
+}
+
+ContactNotification.PreviewProps = {
+  projectType: "ai",
+  budget: "5k-10k",
+  timeline: "1-3-months",
+  message: "Ciao Luca,\nvorrei un preventivo per un'API in Django con integrazione AI.\n\nGrazie!",
+  name: "Mario Rossi",
+  email: "mario.rossi@example.com",
+  contactMethod: "phone",
+  phone: "+39 333 123 4567",
+  locale: "it",
+  receivedAt: "2025-12-08T10:30:00.000Z",
+  attachment: { filename: "requisiti.pdf", size: 184320 },
+} satisfies ContactNotificationProps;
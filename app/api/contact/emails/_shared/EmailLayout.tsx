@@ -0,0 +1,82 @@
+import React from "react";
+import { Body, Container, Head, Hr, Html, Link, Preview, Section, Text } from "@react-email/components";
+
+// Stili inline: molti client di posta ignorano i fogli di stile
+export const emailStyles = {
+  text: { color: "#374151", fontSize: "16px", lineHeight: "26px", margin: "0 0 16px" },
+  label: {
+    color: "#6b7280",
+    fontSize: "12px",
+    fontWeight: 600,
+    letterSpacing: "1px",
+    textTransform: "uppercase" as const,
+    margin: "0 0 4px",
+  },
+  quote: {
+    backgroundColor: "#f3f4f6",
+    borderLeft: "4px solid #6366f1",
+    borderRadius: "8px",
+    padding: "16px 20px",
+    margin: "0 0 24px",
+  },
+  quoteText: { color: "#1f2937", fontSize: "15px", lineHeight: "24px", margin: 0 },
+};
+
+// Testo del visitatore con gli a capo preservati anche nella versione in testo semplice
+export function MessageQuote({ message }: { message: string }) {
+  const lines = message.split("\n");
+  return (
+    <Section style={emailStyles.quote}>
+      <Text style={emailStyles.quoteText}>
+        {lines.map((line, index) => (
+          <React.Fragment key={index}>
+            {line}
+            {index < lines.length - 1 && <br />}
+          </React.Fragment>
+        ))}
+      </Text>
+    </Section>
+  );
+}
+
+interface EmailLayoutProps {
+  preview: string;
+  lang: string;
+  siteUrl: string;
+  footer: React.ReactNode;
+  children: React.ReactNode;
+}
+
+export default function EmailLayout({ preview, lang, siteUrl, footer, children }: EmailLayoutProps) {
+  return (
+    <Html lang={lang}>
+      <Head />
+      <Preview>{preview}</Preview>
+      <Body style={{ backgroundColor: "#f4f4f7", fontFamily: "-apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif", margin: 0, padding: "32px 0" }}>
+        <Container style={{ maxWidth: "560px", margin: "0 auto", backgroundColor: "#ffffff", borderRadius: "16px", overflow: "hidden" }}>
+          {/* Header */}
+          <Section style={{ backgroundColor: "#050508", padding: "28px 32px" }}>
+            <Text style={{ color: "#ffffff", fontSize: "20px", fontWeight: 700, margin: 0 }}>
+              Luca Altimare
+            </Text>
+            <Text style={{ color: "#a5b4fc", fontSize: "13px", margin: "4px 0 0" }}>
+              Backend Developer
+            </Text>
+          </Section>
+
+          <Section style={{ padding: "32px" }}>{children}</Section>
+
+          <Hr style={{ borderColor: "#e5e7eb", margin: 0 }} />
+          <Section style={{ padding: "20px 32px" }}>
+            <Text style={{ color: "#9ca3af", fontSize: "12px", lineHeight: "18px", margin: 0 }}>
+              {footer}{" "}
+              <Link href={siteUrl} style={{ color: "#9ca3af", textDecoration: "underline" }}>
+                {new URL(siteUrl).host}
+              </Link>
+            </Text>
+          </Section>
+        </Container>
+      </Body>
+    </Html>
+  );
+}
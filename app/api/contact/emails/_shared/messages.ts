@@ -0,0 +1,37 @@
+import { Locale, negotiateLocale } from '@/lib/i18n'
+
+// Testi localizzati delle email del form contatti, nelle stesse lingue del sito
+
+export type EmailLocale = Locale
+
+// Lingua dell'email dal valore inviato dal form o dall'header Accept-Language
+export function resolveEmailLocale(...candidates: (string | null | undefined)[]): EmailLocale {
+  return negotiateLocale(...candidates)
+}
+
+export const confirmationMessages = {
+  it: {
+    subject: 'Ho ricevuto il tuo messaggio',
+    preview: 'Grazie per avermi scritto, ti risponderò il prima possibile.',
+    greeting: (name: string) => `Ciao ${name},`,
+    intro:
+      'grazie per avermi contattato! Ho ricevuto il tuo messaggio e ti risponderò entro due giorni lavorativi.',
+    copyHeading: 'Il tuo messaggio',
+    replyHint: 'Se vuoi aggiungere dettagli, rispondi pure direttamente a questa email.',
+    signOff: 'A presto,',
+    footer: 'Ricevi questa email perché hai compilato il form contatti su',
+    dateLocale: 'it-IT',
+  },
+  en: {
+    subject: 'I received your message',
+    preview: "Thanks for reaching out, I'll get back to you as soon as possible.",
+    greeting: (name: string) => `Hi ${name},`,
+    intro:
+      "thanks for getting in touch! I received your message and I'll reply within two business days.",
+    copyHeading: 'Your message',
+    replyHint: 'If you want to add more details, just reply to this email.',
+    signOff: 'Talk soon,',
+    footer: 'You are receiving this email because you filled in the contact form on',
+    dateLocale: 'en-GB',
+  },
+} satisfies Record<EmailLocale, Record<string, unknown>>
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { retryPendingDeliveries } from '../delivery';
+
+export const dynamic = 'force-dynamic';
+
+// Ritenta le consegne fallite. Pensato per un cron (es. Vercel Cron) che invia
+// l'header `Authorization: Bearer ${CRON_SECRET}`.
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await retryPendingDeliveries();
+    return NextResponse.json({ success: true, ...result }, { status: 200 });
+  } catch (error) {
+    console.error('Error retrying contact deliveries:', error);
+    return NextResponse.json(
+      { error: 'Failed to retry deliveries' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,38 +1,185 @@
-import { Resend } from 'resend';
 import { NextResponse } from 'next/server';
+import {
+  CONTACT_ATTACHMENT,
+  CONTACT_TOKEN_FIELD,
+  detectSpam,
+  sanitizeFilename,
+  validateAttachment,
+  validateContactForm,
+} from '@/lib/contact';
+import { contactTokenAge, issueContactToken } from '@/lib/contact-token';
+import { getMessages, Locale, negotiateLocale } from '@/lib/i18n';
+import { ContactAttachmentFile, ContactSubmission, getInboxStore } from '@/lib/inbox';
+import { checkRateLimit, createMemoryStore, getClientIp, RateLimitResult, RateLimitRule } from '@/lib/rate-limit';
+import { deliverSubmission, sendContactEmails } from './delivery';
 
-const resend = new Resend(process.env.RESEND_API_KEY);
+// In memoria per istanza: per più istanze passare uno store condiviso
+const rateLimitStore = createMemoryStore();
+
+const IP_RATE_LIMIT: RateLimitRule = { name: 'contact-ip', limit: 5, windowMs: 15 * 60 * 1000 };
+const EMAIL_RATE_LIMIT: RateLimitRule = { name: 'contact-email', limit: 3, windowMs: 60 * 60 * 1000 };
+
+function tooManyRequests({ limit, resetAt, retryAfterSeconds }: RateLimitResult, locale: Locale) {
+  return NextResponse.json(
+    {
+      error: getMessages(locale).contact.errors.tooManyRequests(Math.ceil(retryAfterSeconds / 60)),
+      retryAfter: retryAfterSeconds,
+    },
+    {
+      status: 429,
+      headers: {
+        'Retry-After': String(retryAfterSeconds),
+        'X-RateLimit-Limit': String(limit),
+        'X-RateLimit-Remaining': '0',
+        'X-RateLimit-Reset': String(Math.ceil(resetAt / 1000)),
+      },
+    }
+  );
+}
+
+// Allegato più i campi di testo
+const MAX_BODY_SIZE = CONTACT_ATTACHMENT.maxSize + 64 * 1024;
+
+/**
+ * Il form invia multipart/form-data (per l'allegato facoltativo);
+ * il JSON resta supportato per i client senza file.
+ */
+async function readBody(request: Request): Promise<{ body: Record<string, unknown>; file: File | null }> {
+  const contentType = request.headers.get('content-type') ?? '';
+
+  if (contentType.includes('multipart/form-data')) {
+    const formData = await request.formData();
+    const body: Record<string, unknown> = {};
+    for (const [key, value] of formData) {
+      if (typeof value === 'string') body[key] = value;
+    }
+
+    const file = formData.get(CONTACT_ATTACHMENT.field);
+    return { body, file: file instanceof File && file.size > 0 ? file : null };
+  }
+
+  const json = await request.json();
+  return { body: typeof json === 'object' && json !== null ? json : {}, file: null };
+}
+
+// Token firmato chiesto dal form all'apertura: l'invio è accettato solo dopo CONTACT_MIN_FILL_TIME_MS
+export async function GET() {
+  return NextResponse.json(
+    { token: issueContactToken() },
+    { headers: { 'Cache-Control': 'no-store' } }
+  );
+}
 
 export async function POST(request: Request) {
+  // Prima di leggere il body la lingua arriva solo da Accept-Language
+  const acceptLanguage = request.headers.get('accept-language');
+
+  // Ogni richiesta conta per l'IP, anche quelle scartate più avanti
+  const ipLimit = await checkRateLimit(rateLimitStore, IP_RATE_LIMIT, getClientIp(request.headers));
+  if (!ipLimit.allowed) {
+    return tooManyRequests(ipLimit, negotiateLocale(acceptLanguage));
+  }
+
+  // Controllo preliminare sulla dimensione, prima di leggere il body
+  const contentLength = Number(request.headers.get('content-length') ?? 0);
+  if (contentLength > MAX_BODY_SIZE) {
+    const maxMb = CONTACT_ATTACHMENT.maxSize / 1024 / 1024;
+    return NextResponse.json(
+      { error: getMessages(negotiateLocale(acceptLanguage)).contact.validation.attachmentSize(maxMb) },
+      { status: 413 }
+    );
+  }
+
+  let parsed: Awaited<ReturnType<typeof readBody>>;
   try {
-    const body = await request.json();
-    const { name, email, message } = body;
-
-    // Validate input
-    if (!name || !email || !message) {
-      return NextResponse.json(
-        { error: 'All fields are required' },
-        { status: 400 }
-      );
-    }
+    parsed = await readBody(request);
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid request body' },
+      { status: 400 }
+    );
+  }
+  const { body, file } = parsed;
+  const locale = negotiateLocale(typeof body.locale === 'string' ? body.locale : undefined, acceptLanguage);
+  const messages = getMessages(locale).contact;
 
-    // Send email using Resend
-    const data = await resend.emails.send({
-      from: 'info@lradev.app',
-      to: 'luca.altimare.98@gmail.com',
-      subject: `New Contact Form Message from ${name}`,
-      replyTo: email,
-      html: `
-        <h2>New Contact Form Submission</h2>
-        <p><strong>Name:</strong> ${name}</p>
-        <p><strong>Email:</strong> ${email}</p>
-        <p><strong>Message:</strong></p>
-        <p>${message.replace(/\n/g, '<br>')}</p>
-      `,
-    });
-
-    return NextResponse.json(
-      { success: true, data },
+  const spam = detectSpam(body, contactTokenAge(body[CONTACT_TOKEN_FIELD]));
+  if (spam === 'honeypot') {
+    // Risposta di successo apparente, per non dare indizi al bot
+    return NextResponse.json({ success: true }, { status: 200 });
+  }
+  if (spam === 'too-fast') {
+    return NextResponse.json(
+      { error: messages.errors.tooFast },
+      { status: 400 }
+    );
+  }
+  if (spam === 'invalid-token') {
+    return NextResponse.json(
+      { error: messages.errors.expiredForm },
+      { status: 400 }
+    );
+  }
+
+  // Validate input
+  const result = validateContactForm(body, locale);
+  const attachmentError = file ? validateAttachment(file, locale) : undefined;
+  if (!result.success || attachmentError) {
+    return NextResponse.json(
+      {
+        error: messages.errors.invalidFields,
+        fields: { ...(!result.success && result.errors), ...(attachmentError && { attachment: attachmentError }) },
+      },
+      { status: 400 }
+    );
+  }
+
+  const contact = result.data;
+
+  const emailLimit = await checkRateLimit(rateLimitStore, EMAIL_RATE_LIMIT, contact.email.toLowerCase());
+  if (!emailLimit.allowed) {
+    return tooManyRequests(emailLimit, locale);
+  }
+
+  const submission = { ...contact, locale };
+  const attachment: ContactAttachmentFile | undefined = file
+    ? {
+        filename: sanitizeFilename(file.name),
+        contentType: file.type || 'application/octet-stream',
+        size: file.size,
+        content: Buffer.from(await file.arrayBuffer()),
+      }
+    : undefined;
+
+  // Il messaggio viene salvato prima dell'invio: se la consegna fallisce resta
+  // nell'archivio e può essere ritentato da /admin/messages o da /api/contact/retry
+  let stored: ContactSubmission | undefined;
+  try {
+    stored = await getInboxStore().create(submission, attachment);
+  } catch (error) {
+    console.error('Error storing contact submission:', error);
+  }
+
+  if (stored) {
+    const delivered = await deliverSubmission(stored);
+    return NextResponse.json(
+      {
+        success: true,
+        delivered: delivered?.status === 'sent',
+        confirmationSent: delivered?.confirmationSent === true,
+      },
+      { status: 200 }
+    );
+  }
+
+  // Senza archivio disponibile si invia direttamente, come ultima risorsa
+  try {
+    const { notification, confirmationSent } = await sendContactEmails(
+      { ...submission, createdAt: new Date().toISOString() },
+      attachment
+    );
+    return NextResponse.json(
+      { success: true, delivered: true, confirmationSent, data: notification },
       { status: 200 }
     );
   } catch (error) {
@@ -0,0 +1,41 @@
+import { MetadataRoute } from 'next'
+import { themeColors } from '@/lib/theme'
+
+/**
+ * Colori per lo schema scuro del sistema (`user_preferences`, proposta di estensione
+ * del manifest): i browser che la supportano seguono il tema come il sito, gli
+ * altri usano i colori di base, quelli del tema chiaro.
+ */
+interface ColorSchemePreferences {
+  user_preferences: {
+    color_scheme_dark: Pick<MetadataRoute.Manifest, 'background_color' | 'theme_color'>
+  }
+}
+
+export default function manifest(): MetadataRoute.Manifest & ColorSchemePreferences {
+  return {
+    name: 'Luca Altimare - Backend Developer',
+    short_name: 'LRA Portfolio',
+    description: 'Backend Developer specializzato in architetture IT, Python, PHP e AI Integrations',
+    start_url: '/',
+    display: 'standalone',
+    background_color: themeColors.light,
+    theme_color: themeColors.light,
+    user_preferences: {
+      color_scheme_dark: {
+        background_color: themeColors.dark,
+        theme_color: themeColors.dark,
+      },
+    },
+    orientation: 'portrait-primary',
+    // Ogni icona vale sia normale sia maskable: il tipo accetta un solo scopo per voce
+    icons: [192, 512].flatMap((size) =>
+      (['any', 'maskable'] as const).map((purpose) => ({
+        src: `/icon-${size}.png`,
+        sizes: `${size}x${size}`,
+        type: 'image/png',
+        purpose,
+      }))
+    ),
+  }
+}
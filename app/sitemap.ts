@@ -1,32 +1,99 @@
 import { MetadataRoute } from 'next'
-import { allPosts } from 'contentlayer/generated'
+import {
+  getBlogPageHref,
+  getCategories,
+  getCategoryHref,
+  getCategoryPaths,
+  getLastModified,
+  getPostHref,
+  getTagHref,
+  getTagPaths,
+  getTags,
+  getTotalPages,
+  getTranslationPaths,
+  publishedPosts,
+} from '@/lib/blog'
+import { getAuthorHref, getAuthorPaths, getAuthors } from '@/lib/authors'
+import { languageAlternates, LOCALES, localizedPath, sharedAlternates } from '@/lib/i18n'
+import { getProjectHref, getProjectTranslationPaths, publishedProjects } from '@/lib/projects'
 
 export default function sitemap(): MetadataRoute.Sitemap {
   const baseUrl = 'https://lradev.app'
 
-  // Homepage
-  const routes: MetadataRoute.Sitemap = [
+  // hreflang con URL assoluti, come richiesto dalle sitemap
+  const alternates = (languages: Record<string, string>) => ({
+    languages: Object.fromEntries(
+      Object.entries(languages).map(([language, path]) => [language, `${baseUrl}${path}`])
+    ),
+  })
+
+  // Homepage e indice del blog, in ogni lingua
+  const routes: MetadataRoute.Sitemap = LOCALES.flatMap((locale) => [
     {
-      url: baseUrl,
+      url: `${baseUrl}${localizedPath(locale)}`,
       lastModified: new Date(),
-      changeFrequency: 'monthly',
+      changeFrequency: 'monthly' as const,
       priority: 1,
+      alternates: alternates(sharedAlternates('/')),
+    },
+    {
+      url: `${baseUrl}${localizedPath(locale, '/blog')}`,
+      lastModified: new Date(),
+      changeFrequency: 'weekly' as const,
+      priority: 0.9,
+      alternates: alternates(sharedAlternates('/blog')),
     },
     {
-      url: `${baseUrl}/blog`,
+      url: `${baseUrl}${localizedPath(locale, '/progetti')}`,
       lastModified: new Date(),
-      changeFrequency: 'weekly',
+      changeFrequency: 'monthly' as const,
       priority: 0.9,
+      alternates: alternates(sharedAlternates('/progetti')),
     },
-  ]
+  ])
 
-  // Blog posts - generati dinamicamente da Contentlayer
-  const blogPosts: MetadataRoute.Sitemap = allPosts.map((post) => ({
-    url: `${baseUrl}/blog/${post.slug}`,
-    lastModified: new Date(post.date),
+  // Blog posts - generati dinamicamente da Contentlayer, collegati alle traduzioni
+  const blogPosts: MetadataRoute.Sitemap = publishedPosts.map((post) => ({
+    url: `${baseUrl}${getPostHref(post)}`,
+    lastModified: new Date(getLastModified(post)),
     changeFrequency: 'monthly',
     priority: 0.8,
+    alternates: alternates(languageAlternates(getTranslationPaths(post))),
+  }))
+
+  // Case study dei progetti, collegati alle traduzioni come i post
+  const projects: MetadataRoute.Sitemap = publishedProjects.map((project) => ({
+    url: `${baseUrl}${getProjectHref(project)}`,
+    lastModified: new Date(project.date),
+    changeFrequency: 'monthly',
+    priority: 0.8,
+    alternates: alternates(languageAlternates(getProjectTranslationPaths(project))),
+  }))
+
+  // Pagine successive dell'indice, archivi per categoria, per tag e per autore
+  const archives: MetadataRoute.Sitemap = LOCALES.flatMap((locale) => [
+    ...Array.from({ length: getTotalPages(locale) - 1 }, (_, i) => ({
+      path: getBlogPageHref(i + 2, locale),
+    })),
+    ...getCategories(locale).map((category) => ({
+      path: getCategoryHref(category.slug, locale),
+      languages: languageAlternates(getCategoryPaths(category.slug)),
+    })),
+    ...getTags(locale).map((tag) => ({
+      path: getTagHref(tag.slug, locale),
+      languages: languageAlternates(getTagPaths(tag.slug)),
+    })),
+    ...getAuthors(locale).map((author) => ({
+      path: getAuthorHref(author.id, locale),
+      languages: languageAlternates(getAuthorPaths(author.id)),
+    })),
+  ]).map(({ path, languages }: { path: string; languages?: Record<string, string> }) => ({
+    url: `${baseUrl}${path}`,
+    lastModified: new Date(),
+    changeFrequency: 'weekly',
+    priority: 0.6,
+    ...(languages && { alternates: alternates(languages) }),
   }))
 
-  return [...routes, ...blogPosts]
+  return [...routes, ...blogPosts, ...projects, ...archives]
 }
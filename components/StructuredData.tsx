@@ -3,13 +3,20 @@
  * Helps Google understand the site content
  */
 
-export function WebsiteStructuredData() {
+import { Author } from "contentlayer/generated";
+import { getAuthorHref } from "@/lib/authors";
+import { getMessages, Locale, localeConfig } from "@/lib/i18n";
+import { getKnownTechnologies, localize } from "@/lib/portfolio";
+import { absoluteUrl } from "@/lib/site";
+
+export function WebsiteStructuredData({ locale }: { locale: Locale }) {
   const structuredData = {
     "@context": "https://schema.org",
     "@type": "WebSite",
     "name": "Luca Altimare - Backend Developer",
-    "url": "https://lradev.app",
-    "description": "Backend Developer specializzato in architetture IT, Python, PHP e AI Integrations",
+    "url": `https://lradev.app/${locale}`,
+    "description": getMessages(locale).meta.shortDescription,
+    "inLanguage": localeConfig[locale].language,
     "author": {
       "@type": "Person",
       "name": "Luca Altimare",
@@ -18,7 +25,7 @@ export function WebsiteStructuredData() {
     },
     "potentialAction": {
       "@type": "SearchAction",
-      "target": "https://lradev.app/blog?search={search_term_string}",
+      "target": `https://lradev.app/${locale}/blog?search={search_term_string}`,
       "query-input": "required name=search_term_string"
     }
   };
@@ -47,17 +54,7 @@ export function PersonStructuredData() {
       "https://github.com/MrHighSea",
       "https://linkedin.com/in/luca-altimare" // Aggiorna con il tuo profilo LinkedIn reale
     ],
-    "knowsAbout": [
-      "Python",
-      "PHP",
-      "Django",
-      "FastAPI",
-      "Laravel",
-      "Clean Architecture",
-      "Hexagonal Architecture",
-      "AI Integration",
-      "Backend Development"
-    ]
+    "knowsAbout": ["Backend Development", ...getKnownTechnologies()]
   };
 
   return (
@@ -68,13 +65,15 @@ export function PersonStructuredData() {
   );
 }
 
-export function BlogStructuredData() {
+export function BlogStructuredData({ locale }: { locale: Locale }) {
+  const { blog } = getMessages(locale);
   const structuredData = {
     "@context": "https://schema.org",
     "@type": "Blog",
-    "name": "Luca Altimare Blog",
-    "description": "Articoli tecnici su Backend Development, Python, Django, FastAPI, Clean Architecture e design patterns",
-    "url": "https://lradev.app/blog",
+    "name": blog.title,
+    "description": blog.description,
+    "url": `https://lradev.app/${locale}/blog`,
+    "inLanguage": localeConfig[locale].language,
     "author": {
       "@type": "Person",
       "name": "Luca Altimare"
@@ -97,14 +96,32 @@ export function BlogStructuredData() {
   );
 }
 
+// Person schema.org di un autore del blog, con la sua pagina d'archivio come url
+function authorPerson(author: Author, locale: Locale) {
+  return {
+    "@type": "Person",
+    "name": author.name,
+    "url": absoluteUrl(getAuthorHref(author.id, locale)),
+    ...(author.avatar && { "image": absoluteUrl(author.avatar) }),
+    "jobTitle": localize(author.role, locale),
+    "description": localize(author.bio, locale),
+    ...(author.socials.length > 0 && { "sameAs": author.socials.map((social) => social.url) }),
+  };
+}
+
 interface ArticleStructuredDataProps {
   title: string;
   description: string;
   datePublished: string;
   dateModified?: string;
   slug: string;
+  locale: Locale;
   category: string;
-  author: string;
+  author: Author;
+  tags?: string[];
+  series?: string;
+  seriesOrder?: number;
+  image?: string;
 }
 
 export function ArticleStructuredData({
@@ -113,22 +130,23 @@ export function ArticleStructuredData({
   datePublished,
   dateModified,
   slug,
+  locale,
   category,
-  author
+  author,
+  tags = [],
+  series,
+  seriesOrder,
+  image = "https://lradev.app/icon.png"
 }: ArticleStructuredDataProps) {
   const structuredData = {
     "@context": "https://schema.org",
     "@type": "BlogPosting",
     "headline": title,
     "description": description,
-    "image": "https://lradev.app/icon.png",
+    "image": image,
     "datePublished": datePublished,
     "dateModified": dateModified || datePublished,
-    "author": {
-      "@type": "Person",
-      "name": author,
-      "url": "https://lradev.app"
-    },
+    "author": authorPerson(author, locale),
     "publisher": {
       "@type": "Person",
       "name": "Luca Altimare",
@@ -139,10 +157,66 @@ export function ArticleStructuredData({
     },
     "mainEntityOfPage": {
       "@type": "WebPage",
-      "@id": `https://lradev.app/blog/${slug}`
+      "@id": `https://lradev.app/${locale}/blog/${slug}`
     },
     "articleSection": category,
-    "inLanguage": "it-IT"
+    ...(tags.length > 0 && { "keywords": tags.join(", ") }),
+    ...(series && {
+      "isPartOf": {
+        "@type": "CreativeWorkSeries",
+        "name": series
+      },
+      ...(seriesOrder !== undefined && { "position": seriesOrder })
+    }),
+    "inLanguage": localeConfig[locale].language
+  };
+
+  return (
+    <script
+      type="application/ld+json"
+      dangerouslySetInnerHTML={{ __html: JSON.stringify(structuredData) }}
+    />
+  );
+}
+
+interface ProjectStructuredDataProps {
+  title: string;
+  description: string;
+  dateCreated: string;
+  slug: string;
+  locale: Locale;
+  stack: string[];
+  image?: string;
+  // Link esterni del progetto (sito, repository)
+  links?: string[];
+}
+
+export function ProjectStructuredData({
+  title,
+  description,
+  dateCreated,
+  slug,
+  locale,
+  stack,
+  image = "https://lradev.app/icon.png",
+  links = []
+}: ProjectStructuredDataProps) {
+  const structuredData = {
+    "@context": "https://schema.org",
+    "@type": "CreativeWork",
+    "name": title,
+    "description": description,
+    "image": image,
+    "dateCreated": dateCreated,
+    "url": `https://lradev.app/${locale}/progetti/${slug}`,
+    "creator": {
+      "@type": "Person",
+      "name": "Luca Altimare",
+      "url": "https://lradev.app"
+    },
+    "keywords": stack.join(", "),
+    ...(links.length > 0 && { "sameAs": links }),
+    "inLanguage": localeConfig[locale].language
   };
 
   return (
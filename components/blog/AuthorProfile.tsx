@@ -0,0 +1,72 @@
+import Image from "next/image";
+import { Github, Globe, Linkedin, Twitter } from "lucide-react";
+import { Author, AuthorSocial } from "contentlayer/generated";
+import { getMessages, Locale } from "@/lib/i18n";
+
+// Icone dei profili referenziati per nome in content/authors
+const socialIcons: Record<AuthorSocial["network"], typeof Github> = {
+  github: Github,
+  linkedin: Linkedin,
+  x: Twitter,
+  website: Globe,
+};
+
+const avatarSizes = {
+  sm: { pixels: 48, className: "w-12 h-12 text-lg" },
+  md: { pixels: 80, className: "w-20 h-20 text-3xl" },
+  lg: { pixels: 112, className: "w-28 h-28 text-4xl" },
+};
+
+// Foto dell'autore o, se manca, l'iniziale del nome
+export function AuthorAvatar({ author, size = "sm" }: { author: Author; size?: keyof typeof avatarSizes }) {
+  const { pixels, className } = avatarSizes[size];
+
+  if (author.avatar) {
+    return (
+      <Image
+        src={author.avatar}
+        alt={author.name}
+        width={pixels}
+        height={pixels}
+        className={`${className} rounded-full object-cover shadow-lg shrink-0`}
+      />
+    );
+  }
+
+  return (
+    <div
+      aria-hidden="true"
+      className={`${className} rounded-full bg-gradient-to-br from-blue-500 to-purple-500 flex items-center justify-center text-white font-bold shadow-lg shrink-0`}
+    >
+      {author.name.charAt(0)}
+    </div>
+  );
+}
+
+export function AuthorSocials({ author, locale }: { author: Author; locale: Locale }) {
+  const { socials } = getMessages(locale).blog;
+
+  if (author.socials.length === 0) return null;
+
+  return (
+    <ul className="flex items-center gap-2">
+      {author.socials.map((social) => {
+        const Icon = socialIcons[social.network];
+        return (
+          <li key={social.url}>
+            <a
+              href={social.url}
+              target="_blank"
+              rel="me noopener noreferrer"
+              aria-label={`${author.name} · ${socials[social.network]}`}
+              title={socials[social.network]}
+              className="flex items-center justify-center w-9 h-9 rounded-lg border border-border-strong text-muted-foreground hover:text-foreground hover:border-blue-500/50 transition-colors"
+            >
+              <Icon className="w-4 h-4" />
+            </a>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,263 @@
+"use client";
+
+import React, { Suspense, useState, useMemo, useEffect, useCallback, useRef } from "react";
+import Link from "next/link";
+import { usePathname, useSearchParams } from "next/navigation";
+import { Search, Filter } from "lucide-react";
+import Navbar from "@/components/portfolio/Navbar";
+import PostCard from "@/components/blog/PostCard";
+import Pagination from "@/components/blog/Pagination";
+import { getBlogPageHref, getCategoryHref, POSTS_PER_PAGE, PostSummary, slugify, TaxonomyTerm } from "@/lib/blog-core";
+import { getMessages, Locale, LOCALES } from "@/lib/i18n";
+import { getSearchIndexPath, searchIndex, SearchIndex, SnippetPart } from "@/lib/search";
+
+// Stato dei filtri, sincronizzato con la query string (?search=&category=&page=)
+interface BlogFilters {
+  search: string;
+  category: string;
+  page: number;
+}
+
+const DEFAULT_FILTERS: BlogFilters = { search: "", category: "all", page: 1 };
+
+function parseFilters(params: { get(name: string): string | null }): BlogFilters {
+  const page = Number.parseInt(params.get("page") ?? "", 10);
+  return {
+    search: params.get("search") ?? "",
+    category: params.get("category") || "all",
+    page: Number.isFinite(page) && page > 0 ? page : 1,
+  };
+}
+
+// Le pagine successive non esistono per forza nell'altra lingua: il cambio lingua porta all'indice
+const languagePaths = Object.fromEntries(LOCALES.map((locale) => [locale, getBlogPageHref(1, locale)]));
+
+function toQueryString(filters: BlogFilters) {
+  const params = new URLSearchParams();
+  if (filters.search) params.set("search", filters.search);
+  if (filters.category !== "all") params.set("category", filters.category);
+  if (filters.page > 1) params.set("page", String(filters.page));
+  const query = params.toString();
+  return query ? `?${query}` : "";
+}
+
+/**
+ * Pagina e categorie arrivano già calcolate dal server, con i soli campi delle card:
+ * i post completi non entrano nel bundle del browser. Con i filtri attivi i
+ * risultati vengono dall'indice di ricerca, scaricato solo in quel momento.
+ */
+export interface BlogIndexProps {
+  locale: Locale;
+  // Pagina renderizzata dal server (/it/blog o /it/blog/page/[n]) e i suoi articoli
+  page?: number;
+  posts: PostSummary[];
+  totalPages: number;
+  // Articoli pubblicati nella lingua, mostrati nel conteggio senza filtri
+  totalPosts: number;
+  categories: TaxonomyTerm[];
+}
+
+type BlogIndexContentProps = Required<BlogIndexProps> & { filters: BlogFilters };
+
+export default function BlogIndex({ page = 1, ...props }: BlogIndexProps) {
+  // Durante il prerender statico la query string non è disponibile:
+  // il fallback mostra la pagina senza filtri, così l'HTML contiene comunque gli articoli
+  return (
+    <Suspense fallback={<BlogIndexContent {...props} page={page} filters={DEFAULT_FILTERS} />}>
+      <BlogIndexFromUrl {...props} page={page} />
+    </Suspense>
+  );
+}
+
+function BlogIndexFromUrl(props: Omit<BlogIndexContentProps, "filters">) {
+  const searchParams = useSearchParams();
+  const filters = useMemo(() => parseFilters(searchParams), [searchParams]);
+  return <BlogIndexContent {...props} filters={filters} />;
+}
+
+function BlogIndexContent({ locale, filters, page, posts, totalPages, totalPosts, categories }: BlogIndexContentProps) {
+  const pathname = usePathname();
+  const messages = getMessages(locale).blog;
+
+  // Il testo cercato ha uno stato locale per non far saltare il cursore
+  // mentre l'URL viene aggiornato ad ogni battitura
+  const [searchQuery, setSearchQuery] = useState(filters.search);
+  const [syncedSearch, setSyncedSearch] = useState(filters.search);
+  if (filters.search !== syncedSearch) {
+    // L'URL è cambiato dall'esterno (back/forward, link condiviso)
+    setSyncedSearch(filters.search);
+    setSearchQuery(filters.search);
+  }
+
+  const [index, setIndex] = useState<SearchIndex | null>(null);
+  const indexRequested = useRef(false);
+
+  // L'indice full-text viene scaricato solo quando serve, una volta sola
+  const loadSearchIndex = useCallback(() => {
+    if (indexRequested.current) return;
+    indexRequested.current = true;
+
+    fetch(getSearchIndexPath(locale))
+      .then((response) => response.json())
+      .then((data: SearchIndex) => setIndex(data))
+      .catch((error) => {
+        console.error('Error loading search index:', error);
+        indexRequested.current = false;
+      });
+  }, [locale]);
+
+  const updateFilters = useCallback((next: Partial<BlogFilters>, mode: "push" | "replace" = "push") => {
+    const url = `${pathname}${toQueryString({ ...filters, search: searchQuery, ...next })}`;
+    if (mode === "replace") {
+      window.history.replaceState(null, "", url);
+    } else {
+      window.history.pushState(null, "", url);
+    }
+  }, [pathname, filters, searchQuery]);
+
+  const selectedCategory = categories.find(category => category.slug === filters.category);
+  const hasFilters = Boolean(searchQuery.trim()) || Boolean(selectedCategory);
+
+  useEffect(() => {
+    if (hasFilters) loadSearchIndex();
+  }, [hasFilters, loadSearchIndex]);
+
+  // Risultati full-text ordinati per rilevanza (null finché l'indice non è pronto)
+  const searchResults = useMemo(() => {
+    if (!index || !searchQuery.trim()) return null;
+    return searchIndex(index, searchQuery);
+  }, [index, searchQuery]);
+
+  const snippets = useMemo(() => {
+    return new Map<string, SnippetPart[]>(
+      (searchResults ?? []).map(result => [result.slug, result.snippet])
+    );
+  }, [searchResults]);
+
+  // Articoli filtrati dall'indice, dal più recente o per rilevanza (null senza filtri o finché l'indice non è pronto)
+  const filteredPosts = useMemo(() => {
+    if (!hasFilters || !index) return null;
+
+    const matchesCategory = (post: PostSummary) =>
+      !selectedCategory || (post.category !== undefined && slugify(post.category) === selectedCategory.slug);
+    const candidates: (PostSummary | undefined)[] = searchResults
+      ? searchResults.map(result => index.documents.find(document => document.slug === result.slug))
+      : index.documents;
+    return candidates.filter((post): post is PostSummary => post !== undefined && matchesCategory(post));
+  }, [hasFilters, index, searchResults, selectedCategory]);
+
+  // Paginazione: senza filtri si naviga tra le pagine statiche /it/blog/page/[n],
+  // con filtri attivi la pagina corrente vive nella query string
+  const filteredPages = filteredPosts ? Math.max(1, Math.ceil(filteredPosts.length / POSTS_PER_PAGE)) : totalPages;
+  const currentPage = hasFilters ? Math.min(filters.page, filteredPages) : page;
+  const pagePosts = filteredPosts
+    ? filteredPosts.slice((currentPage - 1) * POSTS_PER_PAGE, currentPage * POSTS_PER_PAGE)
+    : hasFilters ? [] : posts;
+  const resultCount = filteredPosts ? filteredPosts.length : totalPosts;
+  const loadingResults = hasFilters && !filteredPosts;
+
+  const getPageHref = (target: number) =>
+    hasFilters
+      ? `${pathname}${toQueryString({ ...filters, search: searchQuery, page: target })}`
+      : getBlogPageHref(target, locale);
+
+  return (
+    <>
+      <Navbar locale={locale} languagePaths={languagePaths} />
+      <div className="min-h-screen bg-background text-foreground py-24 px-6">
+        <div className="max-w-6xl mx-auto">
+          {/* Header */}
+          <div className="mb-12">
+            <h1 className="text-4xl md:text-6xl font-bold mb-4">
+              {messages.heading} <span className="bg-gradient-to-r from-blue-400 to-purple-500 bg-clip-text text-transparent">{messages.headingAccent}</span>
+            </h1>
+            <p className="text-muted-foreground text-lg mb-8">
+              {messages.intro}
+            </p>
+
+            {/* Search and Filters */}
+            <div className="flex flex-col md:flex-row gap-4">
+              {/* Search */}
+              <div className="relative flex-1">
+                <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-subtle-foreground" />
+                <input
+                  type="search"
+                  name="search"
+                  placeholder={messages.searchPlaceholder}
+                  value={searchQuery}
+                  onFocus={loadSearchIndex}
+                  onChange={(e) => {
+                    setSearchQuery(e.target.value);
+                    setSyncedSearch(e.target.value);
+                    updateFilters({ search: e.target.value, page: 1 }, "replace");
+                  }}
+                  className="w-full pl-12 pr-4 py-3 bg-card/50 border border-border rounded-xl text-foreground placeholder-subtle-foreground focus:outline-none focus:border-blue-500 transition-colors"
+                />
+              </div>
+
+              {/* Category Filter */}
+              <div className="relative">
+                <Filter className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-subtle-foreground pointer-events-none" />
+                <select
+                  value={selectedCategory?.slug ?? "all"}
+                  onChange={(e) => updateFilters({ category: e.target.value, page: 1 })}
+                  className="pl-12 pr-8 py-3 bg-card/50 border border-border rounded-xl text-foreground focus:outline-none focus:border-blue-500 transition-colors appearance-none cursor-pointer min-w-[200px]"
+                >
+                  <option value="all">{messages.allCategories}</option>
+                  {categories.map(category => (
+                    <option key={category.slug} value={category.slug}>{category.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {/* Results count */}
+            <div className="mt-4 flex flex-wrap items-center gap-4 text-sm text-subtle-foreground">
+              <span>{loadingResults ? messages.loadingResults : messages.articlesFound(resultCount)}</span>
+              {selectedCategory && (
+                <Link
+                  href={getCategoryHref(selectedCategory.slug, locale)}
+                  className="text-accent hover:text-accent/80 transition-colors"
+                >
+                  {messages.openArchive(selectedCategory.name)}
+                </Link>
+              )}
+            </div>
+          </div>
+
+          {/* Blog Posts */}
+          <div className="space-y-6">
+            {pagePosts.map((post, position) => (
+              <PostCard key={post.slug} post={post} index={position} snippet={snippets.get(post.slug)} />
+            ))}
+          </div>
+
+          <Pagination locale={locale} currentPage={currentPage} totalPages={filteredPages} getHref={getPageHref} />
+
+          {/* Empty State */}
+          {filteredPosts?.length === 0 && (
+            <div className="text-center py-16">
+              <div className="text-6xl mb-4">📝</div>
+              <h3 className="text-xl font-semibold text-foreground mb-2">
+                {messages.noResults}
+              </h3>
+              <p className="text-subtle-foreground text-lg">
+                {messages.noResultsHint}
+              </p>
+              <button
+                onClick={() => {
+                  setSearchQuery("");
+                  setSyncedSearch("");
+                  updateFilters({ ...DEFAULT_FILTERS });
+                }}
+                className="mt-6 px-6 py-3 bg-blue-500 hover:bg-blue-600 text-white rounded-xl transition-colors"
+              >
+                {messages.resetFilters}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
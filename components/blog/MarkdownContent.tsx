@@ -0,0 +1,46 @@
+import { Fragment, jsx, jsxs } from "react/jsx-runtime";
+import { fromHtml } from "hast-util-from-html";
+import { Components, toJsxRuntime } from "hast-util-to-jsx-runtime";
+import { getMdxComponents } from "@/components/blog/mdx";
+import { Locale } from "@/lib/i18n";
+
+interface MarkdownContentProps {
+  // post.body.html generato da Contentlayer per gli articoli .md
+  html: string;
+  locale: Locale;
+}
+
+// Tipografia del corpo di articoli e case study; gli stili di codice, formule e
+// diagrammi sono in app/[locale]/blog/blog.css e katex/dist/katex.min.css
+export const proseClassName = [
+  "prose dark:prose-invert",
+  "prose-headings:text-foreground prose-headings:font-bold prose-headings:tracking-tight",
+  "prose-h1:text-5xl prose-h1:mt-16 prose-h1:mb-8 prose-h1:leading-tight",
+  "prose-h2:text-4xl prose-h2:mt-16 prose-h2:mb-8 prose-h2:border-b-2 prose-h2:border-blue-500/30 prose-h2:pb-4 prose-h2:leading-tight",
+  "prose-h3:text-2xl prose-h3:mt-12 prose-h3:mb-6 prose-h3:text-accent prose-h3:leading-snug",
+  "prose-h4:text-xl prose-h4:mt-10 prose-h4:mb-4 prose-h4:text-foreground prose-h4:leading-snug",
+  "prose-p:text-foreground/80 prose-p:leading-relaxed prose-p:mb-6 prose-p:text-lg",
+  "prose-a:text-accent prose-a:no-underline hover:prose-a:underline prose-a:transition-colors",
+  "prose-strong:text-foreground prose-strong:font-bold",
+  "prose-code:text-emerald-700 dark:prose-code:text-emerald-400 prose-code:bg-muted/50 prose-code:px-2 prose-code:py-1 prose-code:rounded prose-code:text-base prose-code:font-mono prose-code:border prose-code:border-border-strong",
+  "prose-pre:bg-gradient-to-br prose-pre:from-card prose-pre:to-muted prose-pre:border prose-pre:border-border-strong prose-pre:rounded-xl prose-pre:p-6 prose-pre:overflow-x-auto prose-pre:my-8",
+  "prose-pre:shadow-2xl prose-pre:shadow-black/50",
+  "prose-ul:text-foreground/80 prose-ul:my-6 prose-ul:space-y-3 prose-ul:text-lg",
+  "prose-ol:text-foreground/80 prose-ol:my-6 prose-ol:space-y-3 prose-ol:text-lg",
+  "prose-li:text-foreground/80 prose-li:leading-relaxed",
+  "prose-li:marker:text-accent",
+  "prose-blockquote:border-l-4 prose-blockquote:border-blue-500 prose-blockquote:pl-6 prose-blockquote:py-2 prose-blockquote:italic prose-blockquote:text-muted-foreground prose-blockquote:my-8",
+  "prose-hr:border-border-strong prose-hr:my-12",
+  "[&_pre_code]:bg-transparent [&_pre_code]:p-0 [&_pre_code]:text-foreground [&_pre_code]:text-base [&_pre_code]:border-0",
+].join(" ");
+
+// L'HTML degli articoli .md diventa elementi React: così anche qui i blocchi di
+// codice hanno il pulsante per copiarli, come negli articoli .mdx
+export default function MarkdownContent({ html, locale }: MarkdownContentProps) {
+  return toJsxRuntime(fromHtml(html, { fragment: true }), {
+    Fragment,
+    jsx,
+    jsxs,
+    components: getMdxComponents(locale) as Partial<Components>,
+  });
+}
@@ -0,0 +1,23 @@
+import { getMDXComponent } from "mdx-bundler/client";
+import { getMdxComponents } from "@/components/blog/mdx";
+import { Locale } from "@/lib/i18n";
+
+interface MdxContentProps {
+  // post.body.code generato da Contentlayer
+  code: string;
+  locale: Locale;
+}
+
+// Il codice di ogni articolo viene valutato una sola volta per processo
+const compiled = new Map<string, ReturnType<typeof getMDXComponent>>();
+
+function getContent(code: string) {
+  if (!compiled.has(code)) compiled.set(code, getMDXComponent(code));
+  return compiled.get(code)!;
+}
+
+// Il contenuto MDX è una funzione pura senza hook: chiamarla direttamente evita di
+// trattare come nuovo componente, a ogni render, il risultato di getMDXComponent
+export default function MdxContent({ code, locale }: MdxContentProps) {
+  return getContent(code)({ components: getMdxComponents(locale) });
+}
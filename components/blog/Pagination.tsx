@@ -0,0 +1,68 @@
+import Link from "next/link";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { getMessages, Locale } from "@/lib/i18n";
+
+interface PaginationProps {
+  currentPage: number;
+  totalPages: number;
+  getHref: (page: number) => string;
+}
+
+export default function Pagination({ locale, currentPage, totalPages, getHref }: PaginationProps & { locale: Locale }) {
+  if (totalPages <= 1) return null;
+
+  const labels = getMessages(locale).blog.pagination;
+  const pages = Array.from({ length: totalPages }, (_, i) => i + 1);
+  const linkClass = "inline-flex items-center justify-center min-w-11 h-11 px-3 rounded-xl border text-sm font-medium transition-colors";
+
+  return (
+    <nav aria-label={labels.label} className="flex flex-wrap items-center justify-center gap-2 mt-12">
+      {currentPage > 1 && (
+        <Link
+          href={getHref(currentPage - 1)}
+          rel="prev"
+          aria-label={labels.previous}
+          className={`${linkClass} bg-card/50 border-border text-muted-foreground hover:text-foreground hover:border-subtle-foreground/60`}
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </Link>
+      )}
+
+      {pages.map((page) => (
+        <Link
+          key={page}
+          href={getHref(page)}
+          aria-current={page === currentPage ? "page" : undefined}
+          className={`${linkClass} ${
+            page === currentPage
+              ? 'bg-gradient-to-r from-blue-500 to-purple-500 border-transparent text-white'
+              : 'bg-card/50 border-border text-muted-foreground hover:text-foreground hover:border-subtle-foreground/60'
+          }`}
+        >
+          {page}
+        </Link>
+      ))}
+
+      {currentPage < totalPages && (
+        <Link
+          href={getHref(currentPage + 1)}
+          rel="next"
+          aria-label={labels.next}
+          className={`${linkClass} bg-card/50 border-border text-muted-foreground hover:text-foreground hover:border-subtle-foreground/60`}
+        >
+          <ChevronRight className="w-4 h-4" />
+        </Link>
+      )}
+    </nav>
+  );
+}
+
+// <link rel="prev|next"> per i crawler: React li sposta automaticamente nel <head>
+export function PaginationLinks({ currentPage, totalPages, getHref }: PaginationProps) {
+  return (
+    <>
+      {currentPage > 1 && <link rel="prev" href={getHref(currentPage - 1)} />}
+      {currentPage < totalPages && <link rel="next" href={getHref(currentPage + 1)} />}
+    </>
+  );
+}
@@ -0,0 +1,109 @@
+import React from "react";
+import Link from "next/link";
+import { ArrowLeft, Rss } from "lucide-react";
+import Navbar from "@/components/portfolio/Navbar";
+import PostCard from "@/components/blog/PostCard";
+import { Post, TaxonomyTerm } from "@/lib/blog";
+import { getMessages, Locale, localizedPath } from "@/lib/i18n";
+
+interface PostArchiveProps {
+  locale: Locale;
+  // Stesso archivio nelle altre lingue, per il selettore della navbar
+  languagePaths?: Partial<Record<Locale, string>>;
+  eyebrow: string;
+  title: string;
+  description: string;
+  posts: Post[];
+  // Altri termini della stessa tassonomia, mostrati come navigazione rapida
+  terms: TaxonomyTerm[];
+  activeSlug: string;
+  basePath: string;
+  feedHref?: string;
+  // Contenuto extra sotto la descrizione (es. il profilo dell'autore)
+  children?: React.ReactNode;
+}
+
+export default function PostArchive({
+  locale,
+  languagePaths,
+  eyebrow,
+  title,
+  description,
+  posts,
+  terms,
+  activeSlug,
+  basePath,
+  feedHref,
+  children,
+}: PostArchiveProps) {
+  const { archive } = getMessages(locale).blog;
+
+  return (
+    <>
+      <Navbar locale={locale} languagePaths={languagePaths} />
+      <div className="min-h-screen bg-background text-foreground py-24 px-6">
+        <div className="max-w-6xl mx-auto">
+          {/* Header */}
+          <div className="mb-12">
+            <Link
+              href={localizedPath(locale, "/blog")}
+              className="inline-flex items-center gap-2 text-muted-foreground hover:text-accent transition-colors mb-8 group"
+            >
+              <ArrowLeft className="w-4 h-4 group-hover:-translate-x-1 transition-transform" />
+              <span className="font-medium">{archive.allArticles}</span>
+            </Link>
+
+            <span className="text-accent text-sm font-medium tracking-widest uppercase mb-4 block">
+              {eyebrow}
+            </span>
+            <h1 className="text-4xl md:text-6xl font-bold mb-4">
+              <span className="bg-gradient-to-r from-blue-400 to-purple-500 bg-clip-text text-transparent">{title}</span>
+            </h1>
+            <p className="text-muted-foreground text-lg mb-8">{description}</p>
+            {children}
+
+            <div className="flex flex-wrap items-center gap-4 text-sm text-subtle-foreground">
+              <span>{archive.articles(posts.length)}</span>
+              {feedHref && (
+                <a
+                  href={feedHref}
+                  className="inline-flex items-center gap-1.5 text-orange-400 hover:text-orange-300 transition-colors"
+                >
+                  <Rss className="w-4 h-4" />
+                  {archive.rss}
+                </a>
+              )}
+            </div>
+
+            {/* Navigazione tra i termini */}
+            {terms.length > 1 && (
+              <div className="flex flex-wrap gap-2 mt-8">
+                {terms.map((term) => (
+                  <Link
+                    key={term.slug}
+                    href={`${basePath}/${term.slug}`}
+                    aria-current={term.slug === activeSlug ? "page" : undefined}
+                    className={`px-3 py-1.5 rounded-full text-sm border transition-colors ${
+                      term.slug === activeSlug
+                        ? 'bg-gradient-to-r from-blue-500 to-purple-500 border-transparent text-white'
+                        : 'bg-card/50 border-border text-muted-foreground hover:text-foreground hover:border-subtle-foreground/60'
+                    }`}
+                  >
+                    {term.name} <span className="opacity-60">({term.count})</span>
+                  </Link>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Blog Posts */}
+          <div className="space-y-6">
+            {posts.map((post, index) => (
+              <PostCard key={post.slug} post={post} index={index} />
+            ))}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
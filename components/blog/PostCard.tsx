@@ -0,0 +1,116 @@
+import Link from "next/link";
+import { Calendar, Clock, ArrowRight, Layers } from "lucide-react";
+import { getPostHref, PostSummary } from "@/lib/blog-core";
+import { formatDate, getMessages } from "@/lib/i18n";
+import { SnippetPart } from "@/lib/search";
+
+interface PostCardProps {
+  post: PostSummary;
+  // Posizione nella lista, usata per scaglionare l'animazione di entrata
+  index?: number;
+  // Estratto del testo con le parole cercate evidenziate, al posto dell'excerpt
+  snippet?: SnippetPart[];
+}
+
+export default function PostCard({ post, index = 0, snippet }: PostCardProps) {
+  const messages = getMessages(post.locale).blog;
+
+  return (
+    <article
+      className="group relative bg-gradient-to-br from-card/80 via-card/50 to-muted/30 border border-border-strong/50 rounded-2xl overflow-hidden hover:border-blue-500/50 transition-all duration-500 hover:shadow-2xl hover:shadow-blue-500/20 hover:-translate-y-1"
+      style={{
+        animation: `fadeIn 0.5s ease-out ${index * 0.1}s both`
+      }}
+    >
+      <div className="absolute inset-0 bg-gradient-to-r from-blue-500/0 via-purple-500/0 to-blue-500/0 group-hover:from-blue-500/5 group-hover:via-purple-500/5 group-hover:to-blue-500/5 transition-all duration-500" />
+
+      <Link href={getPostHref(post)}>
+        <div className="relative p-8 flex flex-col md:flex-row gap-6">
+          {/* Left side - Category badge and metadata */}
+          <div className="flex flex-col gap-4 md:w-48 shrink-0">
+            {post.category && (
+              <span className="px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-500 text-white rounded-xl font-bold text-sm uppercase tracking-wider text-center shadow-lg">
+                {post.category}
+              </span>
+            )}
+            {post.draft && (
+              <span className="px-4 py-1.5 border border-amber-500/50 bg-amber-500/10 text-amber-400 rounded-xl font-bold text-xs uppercase tracking-wider text-center">
+                {messages.draft}
+              </span>
+            )}
+            <div className="flex flex-col gap-2 text-sm">
+              <div className="flex items-center gap-2 text-muted-foreground">
+                <Calendar className="w-4 h-4 text-accent" />
+                <span className="font-medium">
+                  {formatDate(post.date, post.locale, {
+                    day: '2-digit',
+                    month: 'short',
+                    year: 'numeric'
+                  })}
+                </span>
+              </div>
+              <div className="flex items-center gap-2 text-muted-foreground">
+                <Clock className="w-4 h-4 text-purple-400" />
+                <span className="font-medium">{messages.readTime(post.readTime)}</span>
+              </div>
+              {post.series && (
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <Layers className="w-4 h-4 text-emerald-400" />
+                  <span className="font-medium">
+                    {post.series}{post.seriesOrder !== undefined && ` · ${messages.seriesPart(post.seriesOrder)}`}
+                  </span>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Right side - Content */}
+          <div className="flex-1 flex flex-col gap-4">
+            <h2 className="text-3xl font-bold bg-gradient-to-r from-foreground via-blue-700 to-purple-700 dark:via-blue-100 dark:to-purple-100 bg-clip-text text-transparent group-hover:from-blue-400 group-hover:via-purple-400 group-hover:to-blue-400 transition-all duration-300">
+              {post.title}
+            </h2>
+
+            {snippet ? (
+              <p className="text-foreground/80 text-lg leading-relaxed line-clamp-3">
+                {snippet.map((part, partIndex) =>
+                  part.highlight ? (
+                    <mark key={partIndex} className="bg-blue-500/30 text-foreground rounded px-0.5">
+                      {part.text}
+                    </mark>
+                  ) : (
+                    <span key={partIndex}>{part.text}</span>
+                  )
+                )}
+              </p>
+            ) : (
+              <p className="text-foreground/80 text-lg leading-relaxed line-clamp-2">
+                {post.excerpt}
+              </p>
+            )}
+
+            {post.tags.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {post.tags.map(tag => (
+                  <span
+                    key={tag}
+                    className="px-3 py-1 bg-muted/80 text-muted-foreground text-xs rounded-full"
+                  >
+                    #{tag}
+                  </span>
+                ))}
+              </div>
+            )}
+
+            <div className="flex items-center gap-3 text-accent font-semibold group-hover:gap-4 transition-all mt-auto">
+              <span>{messages.continueReading}</span>
+              <ArrowRight className="w-5 h-5 group-hover:translate-x-1 transition-transform" />
+            </div>
+          </div>
+        </div>
+      </Link>
+
+      {/* Decorative gradient line */}
+      <div className="absolute bottom-0 left-0 right-0 h-1 bg-gradient-to-r from-transparent via-blue-500/50 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-500" />
+    </article>
+  );
+}
@@ -0,0 +1,54 @@
+import Link from "next/link";
+import { ArrowLeft, ArrowRight } from "lucide-react";
+import { getPostHref, Post } from "@/lib/blog";
+import { getMessages, Locale } from "@/lib/i18n";
+
+interface PostNavigationProps {
+  locale: Locale;
+  previous?: Post;
+  next?: Post;
+}
+
+export default function PostNavigation({ locale, previous, next }: PostNavigationProps) {
+  if (!previous && !next) return null;
+
+  const { post } = getMessages(locale).blog;
+
+  return (
+    <nav aria-label={post.adjacentLabel} className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-12">
+      {previous ? (
+        <Link
+          href={getPostHref(previous)}
+          rel="prev"
+          className="group bg-card/50 border border-border rounded-2xl p-6 hover:border-blue-500/50 transition-colors"
+        >
+          <div className="flex items-center gap-2 text-sm text-subtle-foreground mb-2">
+            <ArrowLeft className="w-4 h-4 group-hover:-translate-x-1 transition-transform" />
+            {post.previous}
+          </div>
+          <div className="text-foreground font-semibold group-hover:text-accent transition-colors">
+            {previous.title}
+          </div>
+        </Link>
+      ) : (
+        <div className="hidden md:block" />
+      )}
+
+      {next && (
+        <Link
+          href={getPostHref(next)}
+          rel="next"
+          className="group bg-card/50 border border-border rounded-2xl p-6 hover:border-blue-500/50 transition-colors md:text-right"
+        >
+          <div className="flex items-center md:justify-end gap-2 text-sm text-subtle-foreground mb-2">
+            {post.next}
+            <ArrowRight className="w-4 h-4 group-hover:translate-x-1 transition-transform" />
+          </div>
+          <div className="text-foreground font-semibold group-hover:text-accent transition-colors">
+            {next.title}
+          </div>
+        </Link>
+      )}
+    </nav>
+  );
+}
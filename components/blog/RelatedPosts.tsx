@@ -0,0 +1,47 @@
+import Link from "next/link";
+import { Clock } from "lucide-react";
+import { getPostHref, Post } from "@/lib/blog";
+import { getMessages } from "@/lib/i18n";
+
+interface RelatedPostsProps {
+  posts: Post[];
+}
+
+export default function RelatedPosts({ posts }: RelatedPostsProps) {
+  if (posts.length === 0) return null;
+
+  const messages = getMessages(posts[0].locale).blog;
+
+  return (
+    <section aria-labelledby="related-posts-title" className="mb-12">
+      <h2 id="related-posts-title" className="text-2xl font-bold text-foreground mb-6">
+        {messages.post.related}
+      </h2>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {posts.map((post) => (
+          <Link
+            key={post.slug}
+            href={getPostHref(post)}
+            className="group flex flex-col bg-gradient-to-br from-card/80 to-muted/30 border border-border-strong/50 rounded-2xl p-6 hover:border-blue-500/50 hover:-translate-y-1 transition-all duration-300"
+          >
+            {post.category && (
+              <span className="text-xs font-bold uppercase tracking-wider text-accent mb-3">
+                {post.category}
+              </span>
+            )}
+            <h3 className="text-lg font-semibold text-foreground leading-snug mb-3 group-hover:text-accent transition-colors">
+              {post.title}
+            </h3>
+            <p className="text-sm text-muted-foreground leading-relaxed line-clamp-3 mb-4">
+              {post.excerpt}
+            </p>
+            <div className="flex items-center gap-2 text-xs text-subtle-foreground mt-auto">
+              <Clock className="w-3.5 h-3.5" />
+              {messages.readTime(post.readTime)}
+            </div>
+          </Link>
+        ))}
+      </div>
+    </section>
+  );
+}
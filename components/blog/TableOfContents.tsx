@@ -0,0 +1,142 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { List, X } from "lucide-react";
+import { getMessages, Locale } from "@/lib/i18n";
+import { TocEntry } from "@/lib/toc";
+
+interface TableOfContentsProps {
+  locale: Locale;
+  toc: TocEntry[];
+}
+
+// Distanza dal bordo superiore oltre la quale un titolo diventa la sezione corrente (navbar fissa inclusa)
+const ACTIVE_OFFSET = 140;
+
+function flatten(entries: TocEntry[]): TocEntry[] {
+  return entries.flatMap((entry) => [entry, ...flatten(entry.children)]);
+}
+
+function TocList({
+  entries,
+  activeId,
+  onNavigate,
+}: {
+  entries: TocEntry[];
+  activeId: string;
+  onNavigate?: () => void;
+}) {
+  return (
+    <ul className="space-y-1">
+      {entries.map((entry) => (
+        <li key={entry.id}>
+          <a
+            href={`#${entry.id}`}
+            onClick={onNavigate}
+            aria-current={entry.id === activeId ? "location" : undefined}
+            className={`block py-1.5 border-l-2 text-sm leading-snug transition-colors ${
+              entry.level === 3 ? "pl-6" : "pl-3"
+            } ${
+              entry.id === activeId
+                ? "border-blue-400 text-foreground font-medium"
+                : "border-transparent text-subtle-foreground hover:text-foreground/80"
+            }`}
+          >
+            {entry.text}
+          </a>
+          {entry.children.length > 0 && (
+            <TocList entries={entry.children} activeId={activeId} onNavigate={onNavigate} />
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function TableOfContents({ locale, toc }: TableOfContentsProps) {
+  const labels = getMessages(locale).blog.toc;
+  const [activeId, setActiveId] = useState("");
+  const [isDrawerOpen, setIsDrawerOpen] = useState(false);
+
+  useEffect(() => {
+    const ids = flatten(toc).map((entry) => entry.id);
+
+    const handleScroll = () => {
+      let current = "";
+      for (const id of ids) {
+        const element = document.getElementById(id);
+        if (element && element.getBoundingClientRect().top <= ACTIVE_OFFSET) {
+          current = id;
+        } else if (element) {
+          break;
+        }
+      }
+      setActiveId(current);
+    };
+    handleScroll(); // Check initial scroll position
+    window.addEventListener("scroll", handleScroll, { passive: true });
+    return () => window.removeEventListener("scroll", handleScroll);
+  }, [toc]);
+
+  if (toc.length === 0) return null;
+
+  return (
+    <>
+      {/* Desktop: sidebar sticky */}
+      <aside className="hidden lg:block">
+        <nav aria-label={labels.label} className="sticky top-28 max-h-[calc(100vh-8rem)] overflow-y-auto pr-2">
+          <div className="text-xs font-semibold uppercase tracking-widest text-subtle-foreground mb-4">
+            {labels.title}
+          </div>
+          <TocList entries={toc} activeId={activeId} />
+        </nav>
+      </aside>
+
+      {/* Mobile: pulsante flottante + drawer */}
+      <button
+        onClick={() => setIsDrawerOpen(true)}
+        aria-label={labels.open}
+        className="lg:hidden fixed bottom-6 right-6 z-40 w-14 h-14 rounded-full bg-gradient-to-r from-blue-500 to-purple-600 text-white flex items-center justify-center shadow-lg shadow-purple-500/25"
+      >
+        <List className="w-6 h-6" />
+      </button>
+
+      <AnimatePresence>
+        {isDrawerOpen && (
+          <>
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              onClick={() => setIsDrawerOpen(false)}
+              className="lg:hidden fixed inset-0 z-50 bg-black/60 backdrop-blur-sm"
+            />
+            <motion.nav
+              aria-label={labels.label}
+              initial={{ y: "100%" }}
+              animate={{ y: 0 }}
+              exit={{ y: "100%" }}
+              transition={{ duration: 0.3, ease: "easeOut" }}
+              className="lg:hidden fixed bottom-0 left-0 right-0 z-50 max-h-[75vh] overflow-y-auto bg-background border-t border-border rounded-t-2xl p-6"
+            >
+              <div className="flex items-center justify-between mb-4">
+                <div className="text-xs font-semibold uppercase tracking-widest text-subtle-foreground">
+                  {labels.title}
+                </div>
+                <button
+                  onClick={() => setIsDrawerOpen(false)}
+                  aria-label={labels.close}
+                  className="p-2 text-muted-foreground hover:text-foreground transition-colors"
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+              <TocList entries={toc} activeId={activeId} onNavigate={() => setIsDrawerOpen(false)} />
+            </motion.nav>
+          </>
+        )}
+      </AnimatePresence>
+    </>
+  );
+}
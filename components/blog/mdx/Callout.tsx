@@ -0,0 +1,35 @@
+import React from "react";
+import { AlertTriangle, Info, Lightbulb, OctagonAlert } from "lucide-react";
+import { Messages } from "@/lib/i18n";
+
+export type CalloutType = keyof Messages["blog"]["mdx"]["callouts"];
+
+export interface CalloutProps {
+  type?: CalloutType;
+  // Di default l'etichetta del tipo (Nota, Suggerimento, ...)
+  title?: string;
+  labels: Messages["blog"]["mdx"]["callouts"];
+  children: React.ReactNode;
+}
+
+const variants: Record<CalloutType, { icon: typeof Info; className: string }> = {
+  note: { icon: Info, className: "border-blue-500/40 bg-blue-500/10 text-accent" },
+  tip: { icon: Lightbulb, className: "border-emerald-500/40 bg-emerald-500/10 text-emerald-400" },
+  warning: { icon: AlertTriangle, className: "border-amber-500/40 bg-amber-500/10 text-amber-400" },
+  danger: { icon: OctagonAlert, className: "border-red-500/40 bg-red-500/10 text-red-400" },
+};
+
+export default function Callout({ type = "note", title, labels, children }: CalloutProps) {
+  const { icon: Icon, className } = variants[type];
+  const heading = title ?? labels[type];
+
+  return (
+    <aside aria-label={heading} className={`mdx-callout my-10 rounded-2xl border px-6 py-5 ${className}`}>
+      <p className="mdx-callout-title flex items-center gap-3 font-bold">
+        <Icon className="w-5 h-5 shrink-0" aria-hidden="true" />
+        {heading}
+      </p>
+      <div className="mdx-callout-body">{children}</div>
+    </aside>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { Check, Copy } from "lucide-react";
+import { Messages } from "@/lib/i18n";
+
+interface CodeBlockProps extends React.ComponentPropsWithoutRef<"pre"> {
+  labels: Messages["blog"]["code"];
+}
+
+// Durata del feedback "Copiato"
+const COPIED_TIMEOUT = 2000;
+
+// Le righe rimosse di un diff restano fuori; marcatori e numeri di riga sono solo CSS
+function codeText(pre: HTMLPreElement) {
+  const lines = Array.from(pre.querySelectorAll<HTMLElement>("[data-line]"));
+  if (lines.length === 0) return pre.innerText;
+  return lines
+    .filter((line) => line.dataset.diff !== "remove")
+    .map((line) => (line.textContent === " " ? "" : line.textContent))
+    .join("\n");
+}
+
+// Blocco di codice di rehype-pretty-code con il pulsante per copiarlo negli appunti
+export default function CodeBlock({ labels, children, ...props }: CodeBlockProps) {
+  const pre = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timeout = setTimeout(() => setCopied(false), COPIED_TIMEOUT);
+    return () => clearTimeout(timeout);
+  }, [copied]);
+
+  const copy = async () => {
+    if (!pre.current) return;
+    try {
+      await navigator.clipboard.writeText(codeText(pre.current));
+      setCopied(true);
+    } catch {
+      // Appunti non disponibili (contesto non sicuro o permesso negato): il codice resta selezionabile
+    }
+  };
+
+  return (
+    <div className="code-block">
+      <pre ref={pre} {...props}>
+        {children}
+      </pre>
+      <button
+        type="button"
+        onClick={copy}
+        aria-label={labels.copy}
+        title={labels.copy}
+        className="code-copy"
+        data-copied={copied ? "" : undefined}
+      >
+        {copied ? <Check className="w-4 h-4" aria-hidden="true" /> : <Copy className="w-4 h-4" aria-hidden="true" />}
+      </button>
+      <span role="status" className="sr-only">
+        {copied ? labels.copied : ""}
+      </span>
+    </div>
+  );
+}
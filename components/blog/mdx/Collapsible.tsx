@@ -0,0 +1,22 @@
+import React from "react";
+import { ChevronDown } from "lucide-react";
+
+export interface CollapsibleProps {
+  title: string;
+  // Aperto al caricamento della pagina
+  open?: boolean;
+  children: React.ReactNode;
+}
+
+// <details> nativo: funziona senza JavaScript e il testo resta trovabile con la ricerca del browser
+export default function Collapsible({ title, open = false, children }: CollapsibleProps) {
+  return (
+    <details open={open} className="mdx-collapsible group my-8 rounded-2xl border border-border-strong bg-card/50">
+      <summary className="flex items-center justify-between gap-4 px-6 py-4 cursor-pointer list-none font-semibold text-foreground [&::-webkit-details-marker]:hidden">
+        {title}
+        <ChevronDown className="w-5 h-5 shrink-0 text-accent transition-transform group-open:rotate-180" aria-hidden="true" />
+      </summary>
+      <div className="mdx-collapsible-body px-6 pb-2 border-t border-border-strong/50">{children}</div>
+    </details>
+  );
+}
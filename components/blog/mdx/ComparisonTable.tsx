@@ -0,0 +1,56 @@
+import React from "react";
+import { Check, X } from "lucide-react";
+import { Messages } from "@/lib/i18n";
+
+export interface ComparisonRow {
+  feature: string;
+  // Una voce per colonna: true/false diventano ✓ e ✗, il testo resta com'è
+  values: (string | boolean)[];
+}
+
+export interface ComparisonTableProps {
+  columns: string[];
+  rows: ComparisonRow[];
+  labels: Messages["blog"]["mdx"];
+}
+
+function Value({ value, labels }: { value: string | boolean; labels: Messages["blog"]["mdx"] }) {
+  if (typeof value !== "boolean") return <>{value}</>;
+
+  const Icon = value ? Check : X;
+  return (
+    <>
+      <Icon className={`inline w-5 h-5 ${value ? "text-emerald-400" : "text-red-400"}`} aria-hidden="true" />
+      <span className="sr-only">{value ? labels.yes : labels.no}</span>
+    </>
+  );
+}
+
+export default function ComparisonTable({ columns, rows, labels }: ComparisonTableProps) {
+  return (
+    <table className="mdx-comparison">
+      <thead>
+        <tr>
+          <th scope="col">{labels.feature}</th>
+          {columns.map((column) => (
+            <th key={column} scope="col">
+              {column}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row) => (
+          <tr key={row.feature}>
+            <th scope="row">{row.feature}</th>
+            {columns.map((column, index) => (
+              <td key={column}>
+                <Value value={row.values[index] ?? ""} labels={labels} />
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
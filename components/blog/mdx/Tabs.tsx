@@ -0,0 +1,88 @@
+"use client";
+
+import React, { useId, useRef, useState } from "react";
+
+export interface TabProps {
+  label: string;
+  children: React.ReactNode;
+}
+
+// Contenuto di una scheda: l'etichetta la legge <Tabs>
+export function Tab({ children }: TabProps) {
+  return <>{children}</>;
+}
+
+/**
+ * Varianti alternative dello stesso contenuto (es. Django / Flask / FastAPI).
+ * Tutti i pannelli restano nell'HTML, nascosti tranne quello attivo; la tastiera
+ * segue il pattern WAI-ARIA delle schede (frecce, Home, End).
+ */
+export function Tabs({ children }: { children: React.ReactNode }) {
+  const tabs = React.Children.toArray(children).filter(
+    (child): child is React.ReactElement<TabProps> => React.isValidElement<TabProps>(child)
+  );
+  const [active, setActive] = useState(0);
+  const buttons = useRef<(HTMLButtonElement | null)[]>([]);
+  const id = useId();
+
+  const select = (index: number) => {
+    const next = (index + tabs.length) % tabs.length;
+    setActive(next);
+    buttons.current[next]?.focus();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    const moves: Record<string, number> = {
+      ArrowRight: active + 1,
+      ArrowLeft: active - 1,
+      Home: 0,
+      End: tabs.length - 1,
+    };
+    if (event.key in moves) {
+      event.preventDefault();
+      select(moves[event.key]);
+    }
+  };
+
+  return (
+    <div className="mdx-tabs my-10 rounded-2xl border border-border-strong bg-card/50 overflow-hidden">
+      <div role="tablist" onKeyDown={handleKeyDown} className="flex overflow-x-auto border-b border-border-strong bg-card/80">
+        {tabs.map((tab, index) => (
+          <button
+            key={index}
+            ref={(element) => {
+              buttons.current[index] = element;
+            }}
+            type="button"
+            role="tab"
+            id={`${id}-tab-${index}`}
+            aria-selected={index === active}
+            aria-controls={`${id}-panel-${index}`}
+            tabIndex={index === active ? 0 : -1}
+            onClick={() => setActive(index)}
+            className={`px-5 py-3 text-sm font-semibold whitespace-nowrap border-b-2 transition-colors ${
+              index === active
+                ? "border-blue-400 text-foreground"
+                : "border-transparent text-muted-foreground hover:text-foreground"
+            }`}
+          >
+            {tab.props.label}
+          </button>
+        ))}
+      </div>
+      {tabs.map((tab, index) => (
+        <div
+          key={index}
+          role="tabpanel"
+          id={`${id}-panel-${index}`}
+          aria-labelledby={`${id}-tab-${index}`}
+          hidden={index !== active}
+          tabIndex={0}
+          className="mdx-tab-panel px-6 py-2"
+        >
+          {tab.props.children}
+        </div>
+      ))}
+    </div>
+  );
+}
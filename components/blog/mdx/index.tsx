@@ -0,0 +1,33 @@
+import React from "react";
+import type { MDXComponents } from "mdx/types";
+import { getMessages, Locale } from "@/lib/i18n";
+import Callout, { CalloutProps } from "./Callout";
+import CodeBlock from "./CodeBlock";
+import Collapsible from "./Collapsible";
+import ComparisonTable, { ComparisonTableProps } from "./ComparisonTable";
+import { Tab, Tabs } from "./Tabs";
+
+/**
+ * Componenti disponibili negli articoli .mdx, senza import nel file:
+ *
+ *   <Callout type="tip" title="...">...</Callout>          (note, tip, warning, danger)
+ *   <Tabs><Tab label="Django">...</Tab><Tab label="FastAPI">...</Tab></Tabs>
+ *   <ComparisonTable columns={["Django", "Flask"]} rows={[{ feature: "ORM", values: [true, false] }]} />
+ *   <Collapsible title="...">...</Collapsible>
+ *
+ * I blocchi di codice (`pre`) hanno in più il pulsante per copiarli.
+ *
+ * lib/static-html.ts ne produce la versione statica per i feed: un nuovo componente va aggiunto anche lì.
+ */
+export function getMdxComponents(locale: Locale): MDXComponents {
+  const { mdx: labels, code } = getMessages(locale).blog;
+
+  return {
+    pre: (props: React.ComponentPropsWithoutRef<"pre">) => <CodeBlock {...props} labels={code} />,
+    Callout: (props: Omit<CalloutProps, "labels">) => <Callout {...props} labels={labels.callouts} />,
+    Tabs,
+    Tab,
+    ComparisonTable: (props: Omit<ComparisonTableProps, "labels">) => <ComparisonTable {...props} labels={labels} />,
+    Collapsible,
+  };
+}
@@ -0,0 +1,512 @@
+"use client";
+
+import React, { useState, useEffect, useRef } from "react";
+import { motion } from "framer-motion";
+import { ArrowLeft, ArrowRight, Check, Paperclip, Send, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import {
+  BUDGET_RANGES,
+  CONTACT_ATTACHMENT,
+  CONTACT_HONEYPOT_FIELD,
+  CONTACT_LIMITS,
+  CONTACT_METHODS,
+  CONTACT_MIN_FILL_TIME_MS,
+  CONTACT_TOKEN_FIELD,
+  ContactField,
+  ContactFieldErrors,
+  ContactFormValues,
+  ContactOption,
+  EMPTY_CONTACT_FORM,
+  PROJECT_TYPES,
+  TIMELINES,
+  validateAttachment,
+  validateContactForm,
+} from "@/lib/contact";
+import { getMessages, Locale, Messages } from "@/lib/i18n";
+
+type StepField = ContactField | "attachment";
+
+// Risposta di /api/contact: i campi di errore o gli esiti della notifica e della conferma
+interface ContactResponse {
+  error?: string;
+  fields?: ContactFieldErrors;
+  retryAfter?: number;
+  delivered?: boolean;
+  confirmationSent?: boolean;
+}
+
+type OptionField = keyof Messages["contact"]["options"];
+
+// I titoli dei passi sono in messages.contact.form.steps, nello stesso ordine
+const STEPS: StepField[][] = [
+  ["projectType", "budget", "timeline"],
+  ["message", "attachment"],
+  ["name", "email", "contactMethod", "phone"],
+];
+
+const inputClassName = "bg-muted/50 border-border-strong text-foreground placeholder:text-subtle-foreground focus:border-purple-500";
+const invalidClassName = "border-red-500/70 focus:border-red-500";
+const labelClassName = "text-foreground/80 text-sm font-medium mb-2 block";
+
+function FieldError({ id, message }: { id: string; message?: string }) {
+  if (!message) return null;
+  return (
+    <p id={id} className="mt-2 text-sm text-red-400">
+      {message}
+    </p>
+  );
+}
+
+function OptionGroup({
+  field,
+  legend,
+  options,
+  labels,
+  value,
+  error,
+  onChange,
+}: {
+  field: OptionField;
+  legend: string;
+  options: readonly ContactOption[];
+  labels: Record<string, string>;
+  value: string;
+  error?: string;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <fieldset aria-describedby={error ? `contact-${field}-error` : undefined}>
+      <legend className={labelClassName}>{legend}</legend>
+      <div className="flex flex-wrap gap-2">
+        {options.map((option) => (
+          <label
+            key={option.value}
+            className={`px-4 py-2 rounded-xl border text-sm cursor-pointer transition-colors has-[:focus-visible]:ring-2 has-[:focus-visible]:ring-purple-500 ${
+              value === option.value
+                ? "border-purple-500 bg-purple-500/15 text-foreground"
+                : "border-border-strong bg-muted/50 text-muted-foreground hover:border-subtle-foreground/60 hover:text-foreground"
+            }`}
+          >
+            <input
+              type="radio"
+              name={field}
+              value={option.value}
+              checked={value === option.value}
+              onChange={() => onChange(option.value)}
+              className="sr-only"
+            />
+            {labels[option.value] ?? option.label}
+          </label>
+        ))}
+      </div>
+      <FieldError id={`contact-${field}-error`} message={error} />
+    </fieldset>
+  );
+}
+
+export default function ContactForm({ locale }: { locale: Locale }) {
+  const { form, options, errors: errorMessages } = getMessages(locale).contact;
+  const [values, setValues] = useState<ContactFormValues>(EMPTY_CONTACT_FORM);
+  const [attachment, setAttachment] = useState<File | null>(null);
+  const [step, setStep] = useState(0);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  const [confirmationSent, setConfirmationSent] = useState(false);
+  const [error, setError] = useState("");
+  const [fieldErrors, setFieldErrors] = useState<ContactFieldErrors>({});
+  const [honeypot, setHoneypot] = useState("");
+  const [isRateLimited, setIsRateLimited] = useState(false);
+  const startedAt = useRef(0);
+  const formToken = useRef("");
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  // Il tempo di compilazione parte dal montaggio del form. Quello che conta è il
+  // token firmato dal server; il controllo locale serve solo a rispondere subito
+  useEffect(() => {
+    startedAt.current = Date.now();
+    fetch('/api/contact', { cache: 'no-store' })
+      .then((response) => response.json())
+      .then((data: { token?: string }) => {
+        formToken.current = data.token ?? "";
+      })
+      .catch((error) => console.error('Error loading contact form token:', error));
+  }, []);
+
+  const isLastStep = step === STEPS.length - 1;
+
+  const updateField = (field: ContactField, value: string) => {
+    setValues({ ...values, [field]: value });
+    // L'errore del campo sparisce appena l'utente lo corregge
+    if (fieldErrors[field]) {
+      setFieldErrors({ ...fieldErrors, [field]: undefined });
+    }
+  };
+
+  const fieldProps = (field: "name" | "email" | "message" | "phone") => ({
+    id: `contact-${field}`,
+    name: field,
+    value: values[field],
+    maxLength: CONTACT_LIMITS[field].max,
+    "aria-invalid": fieldErrors[field] ? true : undefined,
+    "aria-describedby": fieldErrors[field] ? `contact-${field}-error` : undefined,
+  });
+
+  // Stessa validazione del server, per un feedback immediato
+  const validate = (): ContactFieldErrors => {
+    const validation = validateContactForm(values, locale);
+    const attachmentError = attachment ? validateAttachment(attachment, locale) : undefined;
+    return {
+      ...(!validation.success && validation.errors),
+      ...(attachmentError && { attachment: attachmentError }),
+    };
+  };
+
+  const firstStepWithErrors = (errors: ContactFieldErrors) =>
+    STEPS.findIndex((fields) => fields.some((field) => errors[field]));
+
+  const goToNextStep = () => {
+    const errors = validate();
+    const stepErrors = Object.fromEntries(
+      STEPS[step].filter((field) => errors[field]).map((field) => [field, errors[field]])
+    );
+    setFieldErrors(stepErrors);
+    if (Object.keys(stepErrors).length === 0) {
+      setStep(step + 1);
+    }
+  };
+
+  const selectAttachment = (file: File | null) => {
+    setAttachment(file);
+    setFieldErrors({ ...fieldErrors, attachment: file ? validateAttachment(file, locale) : undefined });
+  };
+
+  const removeAttachment = () => {
+    selectAttachment(null);
+    if (fileInput.current) fileInput.current.value = "";
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (!isLastStep) {
+      goToNextStep();
+      return;
+    }
+
+    const errors = validate();
+    if (Object.keys(errors).length > 0) {
+      setFieldErrors(errors);
+      setStep(firstStepWithErrors(errors));
+      return;
+    }
+
+    const elapsedMs = Date.now() - startedAt.current;
+    if (elapsedMs < CONTACT_MIN_FILL_TIME_MS) {
+      setError(errorMessages.tooFast);
+      return;
+    }
+
+    setFieldErrors({});
+    setIsSubmitting(true);
+
+    // multipart/form-data: il browser imposta da solo il boundary
+    const body = new FormData();
+    for (const [field, value] of Object.entries(values)) {
+      body.append(field, value);
+    }
+    body.append(CONTACT_HONEYPOT_FIELD, honeypot);
+    body.append(CONTACT_TOKEN_FIELD, formToken.current);
+    body.append("locale", locale);
+    if (attachment) {
+      body.append(CONTACT_ATTACHMENT.field, attachment);
+    }
+
+    try {
+      const response = await fetch('/api/contact', {
+        method: 'POST',
+        body,
+      });
+
+      // Un proxy o un errore della piattaforma possono rispondere con HTML
+      const isJson = response.headers.get("content-type")?.includes("application/json");
+      const data: ContactResponse = isJson ? await response.json().catch(() => ({})) : {};
+
+      if (response.status === 429) {
+        // Il form resta bloccato finché il limite non scade
+        setIsRateLimited(true);
+        setTimeout(() => setIsRateLimited(false), (data.retryAfter ?? 60) * 1000);
+        throw new Error(data.error || 'Too many requests');
+      }
+
+      if (!response.ok) {
+        if (data.fields) {
+          setFieldErrors(data.fields);
+          const errorStep = firstStepWithErrors(data.fields);
+          if (errorStep !== -1) setStep(errorStep);
+        }
+        throw new Error(data.error || form.genericError);
+      }
+
+      setSubmitted(true);
+      setConfirmationSent(data.confirmationSent === true);
+      setValues(EMPTY_CONTACT_FORM);
+      setAttachment(null);
+      setStep(0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : form.genericError);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (submitted) {
+    return (
+      <div className="text-center py-12">
+        <div className="w-16 h-16 bg-green-500/20 rounded-full flex items-center justify-center mx-auto mb-4">
+          <Send className="w-8 h-8 text-green-400" />
+        </div>
+        <h3 className="text-xl font-semibold text-foreground mb-2">{form.success}</h3>
+        <p className="text-muted-foreground">
+          {form.successText}
+          {confirmationSent && form.confirmationSent}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-6">
+      {/* Step indicator */}
+      <ol className="flex items-center gap-2">
+        {form.steps.map((title, index) => (
+          <li key={title} className="flex items-center gap-2 flex-1 last:flex-none">
+            <span
+              aria-current={index === step ? "step" : undefined}
+              className={`w-8 h-8 shrink-0 rounded-full flex items-center justify-center text-sm font-semibold transition-colors ${
+                index < step
+                  ? "bg-purple-500/20 text-purple-300"
+                  : index === step
+                    ? "bg-gradient-to-r from-blue-500 to-purple-600 text-white"
+                    : "bg-muted text-subtle-foreground"
+              }`}
+            >
+              {index < step ? <Check className="w-4 h-4" /> : index + 1}
+            </span>
+            <span className={`text-sm ${index === step ? "text-foreground font-medium" : "text-subtle-foreground"}`}>
+              {title}
+            </span>
+            {index < STEPS.length - 1 && <span className="h-px flex-1 bg-muted" />}
+          </li>
+        ))}
+      </ol>
+
+      {/* Honeypot: fuori schermo e fuori dal tab order, lo compilano solo i bot */}
+      <div aria-hidden="true" className="absolute -left-[9999px] w-px h-px overflow-hidden">
+        <label htmlFor={`contact-${CONTACT_HONEYPOT_FIELD}`}>{form.honeypot}</label>
+        <input
+          id={`contact-${CONTACT_HONEYPOT_FIELD}`}
+          name={CONTACT_HONEYPOT_FIELD}
+          type="text"
+          tabIndex={-1}
+          autoComplete="off"
+          value={honeypot}
+          onChange={(e) => setHoneypot(e.target.value)}
+        />
+      </div>
+
+      <motion.div
+        key={step}
+        initial={{ opacity: 0, x: 20 }}
+        animate={{ opacity: 1, x: 0 }}
+        transition={{ duration: 0.25 }}
+        className="space-y-6"
+      >
+        {step === 0 && (
+          <>
+            <OptionGroup
+              field="projectType"
+              legend={form.projectType}
+              options={PROJECT_TYPES}
+              labels={options.projectType}
+              value={values.projectType}
+              error={fieldErrors.projectType}
+              onChange={(value) => updateField("projectType", value)}
+            />
+            <OptionGroup
+              field="budget"
+              legend={form.budget}
+              options={BUDGET_RANGES}
+              labels={options.budget}
+              value={values.budget}
+              error={fieldErrors.budget}
+              onChange={(value) => updateField("budget", value)}
+            />
+            <OptionGroup
+              field="timeline"
+              legend={form.timeline}
+              options={TIMELINES}
+              labels={options.timeline}
+              value={values.timeline}
+              error={fieldErrors.timeline}
+              onChange={(value) => updateField("timeline", value)}
+            />
+          </>
+        )}
+
+        {step === 1 && (
+          <>
+            <div>
+              <label htmlFor="contact-message" className={labelClassName}>{form.message}</label>
+              <Textarea
+                {...fieldProps("message")}
+                onChange={(e) => updateField("message", e.target.value)}
+                placeholder={form.messagePlaceholder}
+                required
+                rows={6}
+                className={`${inputClassName} resize-none ${fieldErrors.message ? invalidClassName : ""}`}
+              />
+              <div className="flex items-start justify-between gap-4">
+                <FieldError id="contact-message-error" message={fieldErrors.message} />
+                <span className="mt-2 ml-auto text-xs text-subtle-foreground tabular-nums">
+                  {values.message.length}/{CONTACT_LIMITS.message.max}
+                </span>
+              </div>
+            </div>
+            <div>
+              <label htmlFor="contact-attachment" className={labelClassName}>
+                {form.attachment} <span className="text-subtle-foreground font-normal">{form.optional}</span>
+              </label>
+              {attachment ? (
+                <div className="flex items-center gap-3 px-4 py-3 bg-muted/50 border border-border-strong rounded-md">
+                  <Paperclip className="w-4 h-4 text-purple-400 shrink-0" />
+                  <span className="text-sm text-foreground truncate">{attachment.name}</span>
+                  <span className="text-xs text-subtle-foreground shrink-0">{Math.ceil(attachment.size / 1024)} KB</span>
+                  <button
+                    type="button"
+                    onClick={removeAttachment}
+                    aria-label={form.removeAttachment}
+                    className="ml-auto p-1 text-muted-foreground hover:text-foreground transition-colors"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ) : (
+                <input
+                  ref={fileInput}
+                  id="contact-attachment"
+                  type="file"
+                  accept={CONTACT_ATTACHMENT.extensions.map((extension) => `.${extension}`).join(",")}
+                  onChange={(e) => selectAttachment(e.target.files?.[0] ?? null)}
+                  aria-describedby="contact-attachment-hint"
+                  className="block w-full text-sm text-muted-foreground file:mr-4 file:px-4 file:py-2 file:rounded-lg file:border-0 file:bg-muted file:text-foreground hover:file:bg-border-strong file:cursor-pointer"
+                />
+              )}
+              <p id="contact-attachment-hint" className="mt-2 text-xs text-subtle-foreground">
+                {form.attachmentHint(CONTACT_ATTACHMENT.extensions.join(", "), CONTACT_ATTACHMENT.maxSize / 1024 / 1024)}
+              </p>
+              <FieldError id="contact-attachment-error" message={fieldErrors.attachment} />
+            </div>
+          </>
+        )}
+
+        {step === 2 && (
+          <>
+            <div>
+              <label htmlFor="contact-name" className={labelClassName}>{form.name}</label>
+              <Input
+                {...fieldProps("name")}
+                onChange={(e) => updateField("name", e.target.value)}
+                placeholder={form.namePlaceholder}
+                autoComplete="name"
+                required
+                className={`${inputClassName} ${fieldErrors.name ? invalidClassName : ""}`}
+              />
+              <FieldError id="contact-name-error" message={fieldErrors.name} />
+            </div>
+            <div>
+              <label htmlFor="contact-email" className={labelClassName}>{form.email}</label>
+              <Input
+                {...fieldProps("email")}
+                type="email"
+                onChange={(e) => updateField("email", e.target.value)}
+                placeholder={form.emailPlaceholder}
+                autoComplete="email"
+                required
+                className={`${inputClassName} ${fieldErrors.email ? invalidClassName : ""}`}
+              />
+              <FieldError id="contact-email-error" message={fieldErrors.email} />
+            </div>
+            <OptionGroup
+              field="contactMethod"
+              legend={form.contactMethod}
+              options={CONTACT_METHODS}
+              labels={options.contactMethod}
+              value={values.contactMethod}
+              error={fieldErrors.contactMethod}
+              onChange={(value) => updateField("contactMethod", value)}
+            />
+            <div>
+              <label htmlFor="contact-phone" className={labelClassName}>
+                {form.phone}{" "}
+                {values.contactMethod !== "phone" && <span className="text-subtle-foreground font-normal">{form.optional}</span>}
+              </label>
+              <Input
+                {...fieldProps("phone")}
+                type="tel"
+                onChange={(e) => updateField("phone", e.target.value)}
+                placeholder="+39 333 123 4567"
+                autoComplete="tel"
+                required={values.contactMethod === "phone"}
+                className={`${inputClassName} ${fieldErrors.phone ? invalidClassName : ""}`}
+              />
+              <FieldError id="contact-phone-error" message={fieldErrors.phone} />
+            </div>
+          </>
+        )}
+      </motion.div>
+
+      {error && (
+        <div role="alert" className="p-4 bg-red-500/10 border border-red-500/50 rounded-lg">
+          <p className="text-red-400 text-sm">{error}</p>
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        {step > 0 && (
+          <Button
+            type="button"
+            onClick={() => {
+              setFieldErrors({});
+              setStep(step - 1);
+            }}
+            className="bg-muted hover:bg-border-strong text-foreground"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            {form.back}
+          </Button>
+        )}
+        <Button
+          type="submit"
+          disabled={isSubmitting || isRateLimited}
+          className="flex-1 bg-gradient-to-r from-blue-500 to-purple-600 text-white hover:shadow-lg hover:shadow-purple-500/25 transition-all duration-300"
+        >
+          {!isLastStep ? (
+            <>
+              {form.next}
+              <ArrowRight className="w-4 h-4 ml-2" />
+            </>
+          ) : isSubmitting ? (
+            form.submitting
+          ) : isRateLimited ? (
+            form.rateLimited
+          ) : (
+            form.submit
+          )}
+        </Button>
+      </div>
+    </form>
+  );
+}
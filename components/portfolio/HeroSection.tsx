@@ -3,8 +3,11 @@
 import React from "react";
 import { motion } from "framer-motion";
 import { Terminal, ChevronDown } from "lucide-react";
+import { getMessages, Locale } from "@/lib/i18n";
+
+export default function HeroSection({ locale }: { locale: Locale }) {
+  const { hero } = getMessages(locale);
 
-export default function HeroSection() {
   return (
     <section className="min-h-screen flex flex-col justify-center items-center relative px-6 overflow-hidden pt-24 md:pt-0">
       {/* Background Effects */}
@@ -33,10 +36,10 @@ export default function HeroSection() {
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
           transition={{ delay: 0.3, duration: 0.6 }}
-          className="text-5xl md:text-7xl font-bold text-white mb-6 tracking-tight"
+          className="text-5xl md:text-7xl font-bold text-foreground mb-6 tracking-tight"
         >
-          Backend
-          <span className="bg-gradient-to-r from-blue-400 to-purple-500 bg-clip-text text-transparent"> Developer</span>
+          {hero.title}
+          <span className="bg-gradient-to-r from-blue-400 to-purple-500 bg-clip-text text-transparent"> {hero.titleAccent}</span>
         </motion.h1>
 
         {/* Subtitle */}
@@ -44,9 +47,9 @@ export default function HeroSection() {
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
           transition={{ delay: 0.5, duration: 0.6 }}
-          className="text-xl md:text-2xl text-gray-200 mb-4 font-light"
+          className="text-xl md:text-2xl text-foreground mb-4 font-light"
         >
-          Architetture IT · Python · PHP · AI Integrations
+          {hero.subtitle}
         </motion.p>
 
         {/* Description */}
@@ -54,10 +57,9 @@ export default function HeroSection() {
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
           transition={{ delay: 0.6, duration: 0.6 }}
-          className="text-gray-300 text-lg max-w-2xl mx-auto mb-12 leading-relaxed"
+          className="text-foreground/80 text-lg max-w-2xl mx-auto mb-12 leading-relaxed"
         >
-          Specializzato nella progettazione di architetture scalabili, 
-          sviluppo di API robuste e integrazione di soluzioni AI avanzate.
+          {hero.description}
         </motion.p>
 
         {/* CTA Buttons */}
@@ -71,13 +73,13 @@ export default function HeroSection() {
             href="#competenze"
             className="px-8 py-4 bg-gradient-to-r from-blue-500 to-purple-600 text-white font-medium rounded-xl hover:shadow-lg hover:shadow-purple-500/25 transition-all duration-300 hover:-translate-y-1"
           >
-            Scopri le Competenze
+            {hero.primaryCta}
           </a>
           <a
             href="#contatti"
-            className="px-8 py-4 border border-gray-700 text-gray-300 font-medium rounded-xl hover:border-gray-500 hover:bg-white/5 transition-all duration-300"
+            className="px-8 py-4 border border-border-strong text-foreground/80 font-medium rounded-xl hover:border-subtle-foreground hover:bg-foreground/5 transition-all duration-300"
           >
-            Contattami
+            {hero.secondaryCta}
           </a>
         </motion.div>
       </motion.div>
@@ -93,7 +95,7 @@ export default function HeroSection() {
           animate={{ y: [0, 10, 0] }}
           transition={{ repeat: Infinity, duration: 1.5, ease: "easeInOut" }}
         >
-          <ChevronDown className="w-6 h-6 text-gray-600" />
+          <ChevronDown className="w-6 h-6 text-subtle-foreground/70" />
         </motion.div>
       </motion.div>
     </section>
@@ -5,27 +5,75 @@ import { motion } from "framer-motion";
 import { Menu, X } from "lucide-react";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
+import { getMessages, Locale, LOCALE_COOKIE, LOCALES, localizedPath, splitLocalePath } from "@/lib/i18n";
+import ThemeToggle from "./ThemeToggle";
 
-const navLinks = [
-  { label: "Home", href: "/" },
-  { label: "Competenze", href: "/#competenze" },
-  { label: "Expertise", href: "/#expertise" },
-  { label: "Blog", href: "/blog" },
-  { label: "Contatti", href: "/#contatti" },
-];
+interface NavbarProps {
+  locale: Locale;
+  // Pagina equivalente nelle altre lingue, quando il percorso non coincide (es. articoli tradotti)
+  languagePaths?: Partial<Record<Locale, string>>;
+}
 
-export default function Navbar() {
+// La scelta esplicita vince su Accept-Language alla prossima visita della homepage
+function rememberLocale(locale: Locale) {
+  document.cookie = `${LOCALE_COOKIE}=${locale}; path=/; max-age=31536000; samesite=lax`;
+}
+
+export default function Navbar({ locale, languagePaths }: NavbarProps) {
   const [isScrolled, setIsScrolled] = useState(false);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [activeSection, setActiveSection] = useState("");
   const pathname = usePathname();
+  const { nav } = getMessages(locale);
+  const home = localizedPath(locale);
+
+  const navLinks = [
+    { label: nav.home, href: home },
+    { label: nav.skills, href: `${home}#competenze` },
+    { label: nav.expertise, href: `${home}#expertise` },
+    { label: nav.projects, href: localizedPath(locale, "/progetti") },
+    { label: nav.blog, href: localizedPath(locale, "/blog") },
+    { label: nav.contact, href: `${home}#contatti` },
+  ];
+
+  // Di default la stessa pagina con l'altro prefisso di lingua; con `languagePaths`
+  // le lingue senza una pagina equivalente portano alla homepage
+  const languageLinks = LOCALES.map((target) => ({
+    locale: target,
+    href: languagePaths
+      ? languagePaths[target] ?? localizedPath(target)
+      : localizedPath(target, splitLocalePath(pathname)[1]),
+  }));
+
+  const isActive = (href: string) =>
+    pathname === href || (pathname === home && activeSection === href.slice(home.length));
+
+  const languageSwitcher = (className: string) => (
+    <div role="group" aria-label={nav.language} className={`flex items-center gap-1 ${className}`}>
+      {languageLinks.map((link) => (
+        <Link
+          key={link.locale}
+          href={link.href}
+          hrefLang={link.locale}
+          lang={link.locale}
+          aria-current={link.locale === locale ? "true" : undefined}
+          onClick={() => rememberLocale(link.locale)}
+          className={`px-2 py-1 rounded-md text-xs font-semibold uppercase tracking-wider transition-colors ${
+            link.locale === locale ? "text-foreground bg-muted" : "text-subtle-foreground hover:text-foreground"
+          }`}
+        >
+          {link.locale}
+        </Link>
+      ))}
+    </div>
+  );
 
   useEffect(() => {
     const handleScroll = () => {
       setIsScrolled(window.scrollY > 50);
 
       // Only track active section on homepage
-      if (pathname === "/") {
+      if (pathname === home) {
         const sections = ["#", "#competenze", "#expertise", "#contatti"];
         const sectionElements = sections.map(id =>
           id === "#" ? document.body : document.querySelector(id)
@@ -48,7 +96,7 @@ export default function Navbar() {
     handleScroll(); // Check initial scroll position
     window.addEventListener("scroll", handleScroll);
     return () => window.removeEventListener("scroll", handleScroll);
-  }, [pathname]);
+  }, [pathname, home]);
 
   return (
     <motion.nav
@@ -57,30 +105,28 @@ export default function Navbar() {
       transition={{ duration: 0.6, ease: "easeOut" }}
       className={`fixed top-0 left-0 right-0 z-50 transition-all duration-300 ${
         isScrolled 
-          ? "bg-[#050508] border-b border-gray-800/50 py-4" 
+          ? "bg-background border-b border-border/50 py-4" 
           : "bg-transparent py-6"
       }`}
-      style={isScrolled ? { backgroundColor: '#050508' } : {}}
     >
       <div className="max-w-6xl mx-auto px-6 flex items-center justify-between">
         {/* Logo */}
-        <Link href="/" className="relative group">
+        <Link href={home} className="relative group">
           <img
             src="https://qtrypzzcjebvfcihiynt.supabase.co/storage/v1/object/public/base44-prod/public/69316f33cd5a52e9f13d0634/9598d8f05_AdobeExpress-file.png"
-            alt="LRA Logo"
-            className="h-10 w-auto invert"
+            alt={nav.logoAlt}
+            className="h-10 w-auto dark:invert"
           />
         </Link>
 
         {/* Desktop Navigation */}
         <div className="hidden md:flex items-center gap-8">
           {navLinks.map((link, idx) => {
-            const isActive = pathname === link.href || (pathname === "/" && activeSection === link.href.replace("/", ""));
             const linkContent = (
               <>
                 {link.label}
                 <span className={`absolute -bottom-1 left-0 h-0.5 bg-gradient-to-r from-blue-500 to-purple-500 transition-all duration-300 ${
-                  isActive ? 'w-full' : 'w-0 group-hover:w-full'
+                  isActive(link.href) ? 'w-full' : 'w-0 group-hover:w-full'
                 }`} />
               </>
             );
@@ -90,28 +136,34 @@ export default function Navbar() {
                 key={idx}
                 href={link.href}
                 className={`transition-colors duration-200 text-sm font-medium relative group ${
-                  isActive ? 'text-white' : 'text-gray-400 hover:text-white'
+                  isActive(link.href) ? 'text-foreground' : 'text-muted-foreground hover:text-foreground'
                 }`}
               >
                 {linkContent}
               </Link>
             );
           })}
+          {languageSwitcher("-mx-2")}
+          <ThemeToggle label={nav.darkTheme} className="-mx-2" />
           <Link
-            href="/#contatti"
+            href={`${home}#contatti`}
             className="px-5 py-2.5 bg-gradient-to-r from-blue-500 to-purple-600 text-white text-sm font-medium rounded-lg hover:shadow-lg hover:shadow-purple-500/25 transition-all duration-300 hover:-translate-y-0.5"
           >
-            Collabora
+            {nav.cta}
           </Link>
         </div>
 
-        {/* Mobile Menu Button */}
-        <button
-          onClick={() => setIsMobileMenuOpen(!isMobileMenuOpen)}
-          className="md:hidden p-2 text-gray-400 hover:text-white transition-colors"
-        >
-          {isMobileMenuOpen ? <X className="w-6 h-6" /> : <Menu className="w-6 h-6" />}
-        </button>
+        {/* Mobile: tema e menu */}
+        <div className="md:hidden flex items-center gap-1">
+          <ThemeToggle label={nav.darkTheme} />
+          <button
+            onClick={() => setIsMobileMenuOpen(!isMobileMenuOpen)}
+            aria-label={isMobileMenuOpen ? nav.closeMenu : nav.openMenu}
+            className="p-2 text-muted-foreground hover:text-foreground transition-colors"
+          >
+            {isMobileMenuOpen ? <X className="w-6 h-6" /> : <Menu className="w-6 h-6" />}
+          </button>
+        </div>
       </div>
 
       {/* Mobile Menu - Fullscreen */}
@@ -120,34 +172,33 @@ export default function Navbar() {
           initial={{ opacity: 0 }}
           animate={{ opacity: 1 }}
           exit={{ opacity: 0 }}
-          className="md:hidden fixed inset-0 top-0 left-0 right-0 bottom-0 bg-[#050508] z-40 flex flex-col"
+          className="md:hidden fixed inset-0 top-0 left-0 right-0 bottom-0 bg-background z-40 flex flex-col"
         >
-          <div className="flex items-center justify-between px-6 py-6 border-b border-gray-800/50">
-            <Link href="/">
+          <div className="flex items-center justify-between px-6 py-6 border-b border-border/50">
+            <Link href={home}>
               <img
                 src="https://qtrypzzcjebvfcihiynt.supabase.co/storage/v1/object/public/base44-prod/public/69316f33cd5a52e9f13d0634/9598d8f05_AdobeExpress-file.png"
-                alt="LRA Logo"
-                className="h-10 w-auto invert"
+                alt={nav.logoAlt}
+                className="h-10 w-auto dark:invert"
               />
             </Link>
             <button
               onClick={() => setIsMobileMenuOpen(false)}
-              className="p-2 text-gray-400 hover:text-white transition-colors"
+              aria-label={nav.closeMenu}
+              className="p-2 text-muted-foreground hover:text-foreground transition-colors"
             >
               <X className="w-6 h-6" />
             </button>
           </div>
           <div className="flex-1 flex flex-col justify-center px-8 space-y-6">
             {navLinks.map((link, idx) => {
-              const isActive = pathname === link.href || (pathname === "/" && activeSection === link.href.replace("/", ""));
-
               return (
                 <Link
                   key={idx}
                   href={link.href}
                   onClick={() => setIsMobileMenuOpen(false)}
-                  className={`text-3xl font-semibold py-3 border-b border-gray-800/50 ${
-                    isActive ? 'text-white bg-gradient-to-r from-blue-500 to-purple-500 bg-clip-text text-transparent' : 'text-white'
+                  className={`text-3xl font-semibold py-3 border-b border-border/50 ${
+                    isActive(link.href) ? 'bg-gradient-to-r from-blue-500 to-purple-500 bg-clip-text text-transparent' : 'text-foreground'
                   }`}
                 >
                   <motion.div
@@ -160,8 +211,9 @@ export default function Navbar() {
                 </Link>
               );
             })}
+            {languageSwitcher("pt-4")}
             <Link
-              href="/#contatti"
+              href={`${home}#contatti`}
               onClick={() => setIsMobileMenuOpen(false)}
               className="block w-full text-center px-5 py-4 bg-gradient-to-r from-blue-500 to-purple-600 text-white font-medium rounded-xl mt-8 text-lg"
             >
@@ -170,7 +222,7 @@ export default function Navbar() {
                 animate={{ opacity: 1, y: 0 }}
                 transition={{ delay: 0.4 }}
               >
-                Collabora
+                {nav.cta}
               </motion.div>
             </Link>
           </div>
@@ -0,0 +1,56 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import { motion } from "framer-motion";
+import { ArrowRight } from "lucide-react";
+import ProjectCard from "@/components/projects/ProjectCard";
+import { getMessages, Locale } from "@/lib/i18n";
+import { getProjectsHref, ProjectSummary } from "@/lib/projects-core";
+
+// I progetti in evidenza arrivano dalla pagina server, già ridotti ai campi delle card
+export default function ProjectsSection({ locale, projects }: { locale: Locale; projects: ProjectSummary[] }) {
+  const messages = getMessages(locale).projects;
+
+  if (projects.length === 0) return null;
+
+  return (
+    <section id="progetti" className="py-32 px-6 relative">
+      <div className="max-w-6xl mx-auto relative">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          whileInView={{ opacity: 1, y: 0 }}
+          viewport={{ once: true }}
+          transition={{ duration: 0.6 }}
+          className="text-center mb-20"
+        >
+          <span className="text-accent text-sm font-medium tracking-widest uppercase mb-4 block">
+            {messages.eyebrow}
+          </span>
+          <h2 className="text-4xl md:text-5xl font-bold text-foreground mb-6">
+            {messages.title}
+          </h2>
+          <p className="text-muted-foreground text-lg max-w-2xl mx-auto">
+            {messages.description}
+          </p>
+        </motion.div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {projects.map((project, idx) => (
+            <ProjectCard key={project.slug} project={project} index={idx} />
+          ))}
+        </div>
+
+        <div className="text-center mt-12">
+          <Link
+            href={getProjectsHref(locale)}
+            className="inline-flex items-center gap-2 px-6 py-3 border border-border-strong hover:border-blue-500/50 text-foreground/80 hover:text-foreground rounded-xl transition-colors"
+          >
+            {messages.viewAll}
+            <ArrowRight className="w-4 h-4" />
+          </Link>
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -2,72 +2,9 @@
 
 import React from "react";
 import { motion } from "framer-motion";
-
-const techCategories = [
-  {
-    title: "Linguaggi",
-    items: [
-      { name: "Python", level: 95 },
-      { name: "PHP", level: 90 },
-      { name: "SQL", level: 92 },
-    ],
-    color: "from-blue-500 to-cyan-400",
-  },
-  {
-    title: "Framework Python",
-    items: [
-      { name: "Django", level: 90 },
-      { name: "FastAPI", level: 95 },
-      { name: "Flask", level: 88 },
-    ],
-    color: "from-green-500 to-emerald-400",
-  },
-  {
-    title: "Framework PHP",
-    items: [
-      { name: "Laravel", level: 92 },
-      { name: "CodeIgniter", level: 85 },
-      { name: "Fat-Free", level: 80 },
-    ],
-    color: "from-purple-500 to-pink-400",
-  },
-  {
-    title: "Database SQL",
-    items: [
-      { name: "PostgreSQL", level: 93 },
-      { name: "MySQL", level: 90 },
-      { name: "SQLite", level: 88 },
-    ],
-    color: "from-orange-500 to-amber-400",
-  },
-  {
-    title: "Database NoSQL",
-    items: [
-      { name: "MongoDB", level: 88 },
-    ],
-    color: "from-emerald-500 to-teal-400",
-  },
-  {
-    title: "Vector DB & AI",
-    items: [
-      { name: "ChromaDB", level: 85 },
-      { name: "Qdrant", level: 85 },
-      { name: "AI Integrations", level: 90 },
-    ],
-    color: "from-violet-500 to-purple-400",
-  },
-  {
-    title: "DevOps & Architetture",
-    items: [
-      { name: "Docker", level: 88 },
-      { name: "Onion Architecture", level: 85 },
-      { name: "Layered Architecture", level: 88 },
-      { name: "Hexagonal Architecture", level: 85 },
-      { name: "Clean Architecture", level: 87 },
-    ],
-    color: "from-cyan-500 to-blue-400",
-  },
-];
+import type { TechCategory } from "contentlayer/generated";
+import { getMessages, Locale } from "@/lib/i18n";
+import { localize } from "@/lib/portfolio-core";
 
 const container = {
   hidden: { opacity: 0 },
@@ -82,7 +19,14 @@ const item = {
   show: { opacity: 1, y: 0 },
 };
 
-export default function TechStack() {
+interface TechStackProps {
+  locale: Locale;
+  techCategories: TechCategory[];
+}
+
+export default function TechStack({ locale, techCategories }: TechStackProps) {
+  const { techStack } = getMessages(locale);
+
   return (
     <section id="competenze" className="py-16 md:py-32 px-6">
       <div className="max-w-6xl mx-auto">
@@ -93,15 +37,14 @@ export default function TechStack() {
           transition={{ duration: 0.6 }}
           className="text-center mb-10 md:mb-20"
         >
-          <span className="text-blue-400 text-sm font-medium tracking-widest uppercase mb-4 block">
-            Tech Stack
+          <span className="text-accent text-sm font-medium tracking-widest uppercase mb-4 block">
+            {techStack.eyebrow}
           </span>
-          <h2 className="text-3xl md:text-5xl font-bold text-white mb-4 md:mb-6">
-            Competenze Tecniche
+          <h2 className="text-3xl md:text-5xl font-bold text-foreground mb-4 md:mb-6">
+            {techStack.title}
           </h2>
-          <p className="text-gray-400 text-base md:text-lg max-w-2xl mx-auto">
-            Anni di esperienza su tecnologie enterprise-grade per costruire 
-            soluzioni robuste, scalabili e performanti.
+          <p className="text-muted-foreground text-base md:text-lg max-w-2xl mx-auto">
+            {techStack.description}
           </p>
         </motion.div>
 
@@ -109,21 +52,21 @@ export default function TechStack() {
         <div className="md:hidden space-y-4">
           {techCategories.map((category, idx) => (
             <motion.div
-              key={idx}
+              key={category._id}
               initial={{ opacity: 0, y: 10 }}
               whileInView={{ opacity: 1, y: 0 }}
               viewport={{ once: true }}
               transition={{ delay: idx * 0.05 }}
-              className="bg-gray-900/50 border border-gray-800 rounded-xl p-4"
+              className="bg-card/50 border border-border rounded-xl p-4"
             >
               <h3 className={`text-sm font-semibold bg-gradient-to-r ${category.color} bg-clip-text text-transparent mb-3`}>
-                {category.title}
+                {localize(category.title, locale)}
               </h3>
               <div className="flex flex-wrap gap-2">
                 {category.items.map((tech, techIdx) => (
                   <span 
                     key={techIdx}
-                    className="px-3 py-1 bg-gray-800/80 text-gray-300 text-xs rounded-full"
+                    className="px-3 py-1 bg-muted/80 text-foreground/80 text-xs rounded-full"
                   >
                     {tech.name}
                   </span>
@@ -141,27 +84,27 @@ export default function TechStack() {
           viewport={{ once: true }}
           className="hidden md:grid grid-cols-2 lg:grid-cols-3 gap-6"
         >
-          {techCategories.map((category, idx) => (
+          {techCategories.map((category) => (
             <motion.div
-              key={idx}
+              key={category._id}
               variants={item}
-              className="group relative bg-gray-900/50 backdrop-blur-sm border border-gray-800 rounded-2xl p-6 hover:border-gray-700 transition-all duration-500"
+              className="group relative bg-card/50 backdrop-blur-sm border border-border rounded-2xl p-6 hover:border-border-strong transition-all duration-500"
             >
               {/* Glow Effect */}
               <div className={`absolute inset-0 bg-gradient-to-br ${category.color} opacity-0 group-hover:opacity-5 rounded-2xl transition-opacity duration-500`} />
               
               <h3 className={`text-lg font-semibold bg-gradient-to-r ${category.color} bg-clip-text text-transparent mb-6`}>
-                {category.title}
+                {localize(category.title, locale)}
               </h3>
 
               <div className="space-y-4">
                 {category.items.map((tech, techIdx) => (
                   <div key={techIdx}>
                     <div className="flex justify-between mb-2">
-                      <span className="text-gray-300 text-sm font-medium">{tech.name}</span>
-                      <span className="text-gray-500 text-xs">{tech.level}%</span>
+                      <span className="text-foreground/80 text-sm font-medium">{tech.name}</span>
+                      <span className="text-subtle-foreground text-xs">{tech.level}%</span>
                     </div>
-                    <div className="h-1.5 bg-gray-800 rounded-full overflow-hidden">
+                    <div className="h-1.5 bg-muted rounded-full overflow-hidden">
                       <motion.div
                         initial={{ width: 0 }}
                         whileInView={{ width: `${tech.level}%` }}
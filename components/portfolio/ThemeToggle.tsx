@@ -0,0 +1,52 @@
+"use client";
+
+import React, { useSyncExternalStore } from "react";
+import { Moon, Sun } from "lucide-react";
+import { THEME_STORAGE_KEY, THEMES, Theme } from "@/lib/theme";
+
+interface ThemeToggleProps {
+  label: string;
+  className?: string;
+}
+
+// La classe su <html> è la fonte di verità: la imposta lo script nel <head> e la cambia il pulsante
+function subscribe(onChange: () => void) {
+  const observer = new MutationObserver(onChange);
+  observer.observe(document.documentElement, { attributes: true, attributeFilter: ["class"] });
+  return () => observer.disconnect();
+}
+
+function currentTheme(): Theme {
+  return document.documentElement.classList.contains("dark") ? "dark" : "light";
+}
+
+function applyTheme(theme: Theme) {
+  document.documentElement.classList.remove(...THEMES);
+  document.documentElement.classList.add(theme);
+  try {
+    localStorage.setItem(THEME_STORAGE_KEY, theme);
+  } catch {
+    // Storage non disponibile (es. navigazione privata): il tema vale solo per questa pagina
+  }
+}
+
+/**
+ * Interruttore del tema scuro. Durante il rendering sul server il tema non è noto:
+ * l'icona dipende solo dal CSS (`dark:`) e aria-pressed arriva dopo l'idratazione.
+ */
+export default function ThemeToggle({ label, className = "" }: ThemeToggleProps) {
+  const theme = useSyncExternalStore(subscribe, currentTheme, () => null);
+
+  return (
+    <button
+      type="button"
+      onClick={() => applyTheme(currentTheme() === "dark" ? "light" : "dark")}
+      aria-label={label}
+      aria-pressed={theme ? theme === "dark" : undefined}
+      className={`p-2 rounded-md text-muted-foreground hover:text-foreground transition-colors ${className}`}
+    >
+      <Moon className="w-5 h-5 dark:hidden" />
+      <Sun className="w-5 h-5 hidden dark:block" />
+    </button>
+  );
+}
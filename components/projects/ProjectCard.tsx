@@ -0,0 +1,75 @@
+import Image from "next/image";
+import Link from "next/link";
+import { ArrowRight } from "lucide-react";
+import { getMessages } from "@/lib/i18n";
+import { getProjectHref, ProjectSummary } from "@/lib/projects-core";
+
+interface ProjectCardProps {
+  project: ProjectSummary;
+  // Posizione nella lista, usata per scaglionare l'animazione di entrata
+  index?: number;
+}
+
+export default function ProjectCard({ project, index = 0 }: ProjectCardProps) {
+  const messages = getMessages(project.locale).projects;
+
+  return (
+    <article
+      className="group relative flex flex-col bg-gradient-to-br from-card/80 via-card/50 to-muted/30 border border-border-strong/50 rounded-2xl overflow-hidden hover:border-blue-500/50 transition-all duration-500 hover:shadow-2xl hover:shadow-blue-500/20 hover:-translate-y-1"
+      style={{
+        animation: `fadeIn 0.5s ease-out ${index * 0.1}s both`
+      }}
+    >
+      <Link href={getProjectHref(project)} className="flex flex-col h-full">
+        {/* Cover */}
+        <div className="relative aspect-[1200/630] overflow-hidden bg-gradient-to-br from-blue-500/20 to-purple-500/20">
+          {project.cover && (
+            <Image
+              src={project.cover}
+              alt={messages.coverAlt(project.title)}
+              width={1200}
+              height={630}
+              sizes="(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw"
+              className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-500"
+            />
+          )}
+        </div>
+
+        <div className="flex-1 flex flex-col gap-4 p-6">
+          <h3 className="text-xl font-bold text-foreground group-hover:text-accent transition-colors">
+            {project.title}
+          </h3>
+          <p className="text-muted-foreground leading-relaxed line-clamp-3">
+            {project.summary}
+          </p>
+
+          {/* Primo risultato come anteprima */}
+          {project.outcomes.length > 0 && (
+            <div className="flex items-baseline gap-2">
+              <span className="text-2xl font-bold bg-gradient-to-r from-blue-400 to-purple-500 bg-clip-text text-transparent">
+                {project.outcomes[0].value}
+              </span>
+              <span className="text-sm text-subtle-foreground">{project.outcomes[0].label}</span>
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            {project.stack.map((technology) => (
+              <span
+                key={technology}
+                className="px-3 py-1 bg-muted/80 text-muted-foreground text-xs rounded-full"
+              >
+                {technology}
+              </span>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-3 text-accent font-semibold group-hover:gap-4 transition-all mt-auto">
+            <span>{messages.viewProject}</span>
+            <ArrowRight className="w-5 h-5 group-hover:translate-x-1 transition-transform" />
+          </div>
+        </div>
+      </Link>
+    </article>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import React, { Suspense } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import Navbar from "@/components/portfolio/Navbar";
+import ProjectCard from "@/components/projects/ProjectCard";
+import { getMessages, Locale } from "@/lib/i18n";
+import type { TaxonomyTerm } from "@/lib/blog-core";
+import { getProjectsHref, ProjectSummary } from "@/lib/projects-core";
+
+// Liste già calcolate dalla pagina server, con i soli campi delle card
+interface ProjectIndexProps {
+  locale: Locale;
+  projects: ProjectSummary[];
+  stacks: TaxonomyTerm[];
+  // Progetti di ogni tecnologia, per slug
+  projectsByStack: Record<string, ProjectSummary[]>;
+}
+
+export default function ProjectIndex(props: ProjectIndexProps) {
+  // Durante il prerender statico la query string non è disponibile:
+  // il fallback mostra tutti i progetti
+  return (
+    <Suspense fallback={<ProjectIndexContent {...props} stack="" />}>
+      <ProjectIndexFromUrl {...props} />
+    </Suspense>
+  );
+}
+
+function ProjectIndexFromUrl(props: ProjectIndexProps) {
+  const searchParams = useSearchParams();
+  return <ProjectIndexContent {...props} stack={searchParams.get("stack") ?? ""} />;
+}
+
+// Il filtro per tecnologia vive nella query string (?stack=django), così è condivisibile
+function ProjectIndexContent({ locale, stack, stacks, projectsByStack, ...props }: ProjectIndexProps & { stack: string }) {
+  const messages = getMessages(locale).projects;
+  const selectedStack = stacks.find((term) => term.slug === stack);
+  const projects = selectedStack ? projectsByStack[selectedStack.slug] ?? [] : props.projects;
+
+  const pillClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-full text-sm border transition-colors ${
+      active
+        ? 'bg-gradient-to-r from-blue-500 to-purple-500 border-transparent text-white'
+        : 'bg-card/50 border-border text-muted-foreground hover:text-foreground hover:border-subtle-foreground/60'
+    }`;
+
+  return (
+    <>
+      <Navbar locale={locale} />
+      <div className="min-h-screen bg-background text-foreground py-24 px-6">
+        <div className="max-w-6xl mx-auto">
+          {/* Header */}
+          <div className="mb-12">
+            <h1 className="text-4xl md:text-6xl font-bold mb-4">
+              {messages.heading} <span className="bg-gradient-to-r from-blue-400 to-purple-500 bg-clip-text text-transparent">{messages.headingAccent}</span>
+            </h1>
+            <p className="text-muted-foreground text-lg mb-8">
+              {messages.intro}
+            </p>
+
+            {/* Stack filters */}
+            <nav aria-label={messages.filterLabel} className="flex flex-wrap gap-2">
+              <Link
+                href={getProjectsHref(locale)}
+                scroll={false}
+                aria-current={!selectedStack ? "page" : undefined}
+                className={pillClass(!selectedStack)}
+              >
+                {messages.allStacks}
+              </Link>
+              {stacks.map((term) => (
+                <Link
+                  key={term.slug}
+                  href={getProjectsHref(locale, term.slug)}
+                  scroll={false}
+                  aria-current={term.slug === selectedStack?.slug ? "page" : undefined}
+                  className={pillClass(term.slug === selectedStack?.slug)}
+                >
+                  {term.name} <span className="opacity-60">({term.count})</span>
+                </Link>
+              ))}
+            </nav>
+
+            <div className="mt-4 text-sm text-subtle-foreground">
+              {messages.count(projects.length)}
+            </div>
+          </div>
+
+          {/* Projects */}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {projects.map((project, index) => (
+              <ProjectCard key={project.slug} project={project} index={index} />
+            ))}
+          </div>
+
+          {/* Empty State */}
+          {projects.length === 0 && (
+            <div className="text-center py-16">
+              <h3 className="text-xl font-semibold text-foreground mb-2">
+                {messages.noResults}
+              </h3>
+              <Link
+                href={getProjectsHref(locale)}
+                className="inline-block mt-6 px-6 py-3 bg-blue-500 hover:bg-blue-600 text-white rounded-xl transition-colors"
+              >
+                {messages.showAll}
+              </Link>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
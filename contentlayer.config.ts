@@ -1,85 +1,376 @@
-import { defineDocumentType, makeSource } from 'contentlayer2/source-files'
+import { ComputedFields, defineDocumentType, defineNestedType, FieldDefs, makeSource } from 'contentlayer2/source-files'
+import rehypeKatex from 'rehype-katex'
 import rehypePrettyCode from 'rehype-pretty-code'
 import rehypeSlug from 'rehype-slug'
 import rehypeAutolinkHeadings from 'rehype-autolink-headings'
+import remarkGfm from 'remark-gfm'
+import remarkMath from 'remark-math'
+import type { Pluggable } from 'unified'
+import { transformerDiff } from './lib/code-transformers'
+import { checkContent, reportContentIssues } from './lib/content-check'
+import { rehypeDiagrams } from './lib/diagrams'
+import { rehypeFootnotes } from './lib/footnotes'
+import { renderStaticHtml } from './lib/static-html'
+import { extractToc } from './lib/toc'
 
-export const Post = defineDocumentType(() => ({
-  name: 'Post',
+// Tabelle, elenchi di attività, barrato e note a piè di pagina (GFM), formule tra $ e $$
+const remarkPlugins: Pluggable[] = [remarkGfm, remarkMath]
+
+/**
+ * Stessa resa dei blocchi di codice, dei diagrammi, delle formule e delle ancore per
+ * markdown, MDX e HTML dei feed. I feed non caricano CSS: le formule restano solo
+ * MathML (KaTeX lo affianca all'HTML, nascosto dal suo foglio di stile) e le note
+ * non hanno l'anteprima al passaggio del mouse.
+ */
+function rehypePlugins(target: 'page' | 'feed'): Pluggable[] {
+  return [
+    rehypeSlug,
+    // Prima dell'evidenziazione: i blocchi ```mermaid e ```dot diventano SVG (lib/diagrams)
+    rehypeDiagrams,
+    // Anche le formule in blocco ($$ o ```math) arrivano come codice
+    [rehypeKatex, { output: target === 'page' ? 'htmlAndMathml' : 'mathml' }],
+    [
+      rehypePrettyCode,
+      {
+        // Un tema per modalità: i colori arrivano come --shiki-light/--shiki-dark (vedi blog.css)
+        theme: { light: 'one-light', dark: 'one-dark-pro' },
+        keepBackground: false,
+        // Titoli (title="views.py"), righe ({1,3-5}), parole (/query/) e numeri di riga
+        // (showLineNumbers) sono gestiti da rehype-pretty-code; `diff` da lib/code-transformers
+        transformers: [transformerDiff()],
+        onVisitLine(node: any) {
+          // Prevent lines from collapsing in `display: grid` mode
+          if (node.children.length === 0) {
+            node.children = [{ type: 'text', value: ' ' }]
+          }
+        },
+        onVisitHighlightedLine(node: any) {
+          node.properties.className = ['highlighted']
+        },
+      },
+    ],
+    [
+      rehypeAutolinkHeadings,
+      {
+        properties: {
+          className: ['anchor'],
+        },
+      },
+    ],
+    [rehypeFootnotes, { previews: target === 'page' }],
+  ]
+}
+
+// Frontmatter comune agli articoli .md e .mdx
+const postFields: FieldDefs = {
+  title: {
+    type: 'string',
+    required: true,
+  },
+  date: {
+    type: 'date',
+    required: true,
+  },
+  excerpt: {
+    type: 'string',
+    required: true,
+  },
+  category: {
+    type: 'string',
+    required: false,
+  },
+  // Id dell'autore: nome del file in content/authors (di default l'autore del sito, lib/authors)
+  author: {
+    type: 'string',
+    required: false,
+  },
+  image: {
+    type: 'string',
+    required: false,
+  },
+  tags: {
+    type: 'list',
+    of: { type: 'string' },
+    required: false,
+    default: [],
+  },
+  series: {
+    type: 'string',
+    required: false,
+  },
+  seriesOrder: {
+    type: 'number',
+    required: false,
+  },
+  draft: {
+    type: 'boolean',
+    required: false,
+    default: false,
+  },
+  updated: {
+    type: 'date',
+    required: false,
+  },
+  // Stesse lingue di LOCALES in lib/i18n
+  locale: {
+    type: 'enum',
+    options: ['it', 'en'],
+    required: false,
+    default: 'it',
+  },
+  // Slug del post originale in italiano di cui questo è la traduzione
+  translationOf: {
+    type: 'string',
+    required: false,
+  },
+}
+
+const postComputedFields: ComputedFields<'MdxPost' | 'MarkdownPost'> = {
+  // Le traduzioni stanno in una cartella per lingua (blog/en/...): lo slug è solo il nome del file
+  slug: {
+    type: 'string',
+    resolve: (post) => post._raw.flattenedPath.split('/').pop(),
+  },
+  readTime: {
+    type: 'string',
+    resolve: (post) => {
+      const wordsPerMinute = 200
+      const words = post.body.raw.split(/\s+/).length
+      const minutes = Math.ceil(words / wordsPerMinute)
+      return `${minutes} min`
+    },
+  },
+  toc: {
+    type: 'json',
+    resolve: (post) => extractToc(post),
+  },
+  // HTML statico per i feed: il corpo MDX è codice da eseguire, e i feed non hanno
+  // il CSS che nasconde le anteprime delle note presenti nell'HTML della pagina
+  html: {
+    type: 'string',
+    resolve: (post) =>
+      renderStaticHtml(post.body.raw, {
+        mdx: post._raw.sourceFileName.endsWith('.mdx'),
+        remarkPlugins,
+        rehypePlugins: rehypePlugins('feed'),
+        data: { rawDocumentData: post._raw },
+      }),
+  },
+}
+
+/**
+ * Gli articoli .md restano markdown semplice: commenti HTML, graffe e `<` non
+ * rompono la compilazione come farebbero in MDX. Solo i .mdx sono compilati come
+ * MDX e possono usare i componenti di components/blog/mdx. lib/blog-core li
+ * riunisce nel tipo Post.
+ */
+export const MarkdownPost = defineDocumentType(() => ({
+  name: 'MarkdownPost',
   filePathPattern: `blog/**/*.md`,
   contentType: 'markdown',
+  fields: postFields,
+  computedFields: postComputedFields,
+}))
+
+export const MdxPost = defineDocumentType(() => ({
+  name: 'MdxPost',
+  filePathPattern: `blog/**/*.mdx`,
+  contentType: 'mdx',
+  fields: postFields,
+  computedFields: postComputedFields,
+}))
+
+// Risultato misurabile di un progetto (es. value: "-60%", label: "tempi di risposta")
+const ProjectOutcome = defineNestedType(() => ({
+  name: 'ProjectOutcome',
   fields: {
-    title: {
-      type: 'string',
-      required: true,
-    },
-    date: {
-      type: 'date',
-      required: true,
-    },
-    excerpt: {
-      type: 'string',
-      required: true,
-    },
-    category: {
-      type: 'string',
-      required: false,
-    },
-    author: {
-      type: 'string',
-      required: false,
-    },
-    image: {
-      type: 'string',
+    value: { type: 'string', required: true },
+    label: { type: 'string', required: true },
+  },
+}))
+
+const ProjectLink = defineNestedType(() => ({
+  name: 'ProjectLink',
+  fields: {
+    kind: { type: 'enum', options: ['live', 'repository', 'article'], required: true },
+    href: { type: 'string', required: true },
+  },
+}))
+
+// Case study: le sezioni fisse stanno nel frontmatter, il corpo è il racconto libero
+export const Project = defineDocumentType(() => ({
+  name: 'Project',
+  filePathPattern: `projects/**/*.md`,
+  contentType: 'markdown',
+  fields: {
+    title: { type: 'string', required: true },
+    summary: { type: 'string', required: true },
+    // Data di consegna, usata per l'ordinamento
+    date: { type: 'date', required: true },
+    client: { type: 'string', required: false },
+    role: { type: 'string', required: false },
+    cover: { type: 'string', required: false },
+    problem: { type: 'string', required: true },
+    stack: { type: 'list', of: { type: 'string' }, required: true },
+    architecture: { type: 'string', required: true },
+    outcomes: { type: 'list', of: ProjectOutcome, required: false, default: [] },
+    links: { type: 'list', of: ProjectLink, required: false, default: [] },
+    // I progetti in evidenza compaiono anche in homepage
+    featured: { type: 'boolean', required: false, default: false },
+    draft: { type: 'boolean', required: false, default: false },
+    locale: {
+      type: 'enum',
+      options: ['it', 'en'],
       required: false,
+      default: 'it',
     },
+    translationOf: { type: 'string', required: false },
   },
   computedFields: {
     slug: {
       type: 'string',
-      resolve: (post) => post._raw.flattenedPath.replace('blog/', ''),
+      resolve: (project) => project._raw.flattenedPath.split('/').pop(),
     },
-    readTime: {
+  },
+}))
+
+// Testo del portfolio nelle lingue del sito (stesse di LOCALES in lib/i18n)
+const LocalizedText = defineNestedType(() => ({
+  name: 'LocalizedText',
+  fields: {
+    it: { type: 'string', required: true },
+    en: { type: 'string', required: true },
+  },
+}))
+
+const TechItem = defineNestedType(() => ({
+  name: 'TechItem',
+  fields: {
+    name: { type: 'string', required: true },
+    // Padronanza in percentuale, da 0 a 100
+    level: { type: 'number', required: true },
+  },
+}))
+
+// Coordinate in percentuale rispetto al viewport
+const TagPosition = defineNestedType(() => ({
+  name: 'TagPosition',
+  fields: {
+    x: { type: 'number', required: true },
+    y: { type: 'number', required: true },
+  },
+}))
+
+const FloatingTag = defineNestedType(() => ({
+  name: 'FloatingTag',
+  fields: {
+    name: { type: 'string', required: true },
+    color: { type: 'string', required: true },
+    position: { type: 'nested', of: TagPosition, required: true },
+    scrolledPosition: { type: 'nested', of: TagPosition, required: true },
+  },
+}))
+
+const AuthorSocial = defineNestedType(() => ({
+  name: 'AuthorSocial',
+  fields: {
+    // Icone disponibili in components/blog/AuthorProfile.tsx
+    network: { type: 'enum', options: ['github', 'linkedin', 'x', 'website'], required: true },
+    url: { type: 'string', required: true },
+  },
+}))
+
+// Autori degli articoli, richiamati dal campo `author` dei post con l'id (nome del file)
+export const Author = defineDocumentType(() => ({
+  name: 'Author',
+  filePathPattern: 'authors/*.yaml',
+  contentType: 'data',
+  fields: {
+    name: { type: 'string', required: true },
+    // Percorso in /public; senza avatar viene mostrata l'iniziale del nome
+    avatar: { type: 'string', required: false },
+    role: { type: 'nested', of: LocalizedText, required: true },
+    bio: { type: 'nested', of: LocalizedText, required: true },
+    socials: { type: 'list', of: AuthorSocial, required: false, default: [] },
+  },
+  computedFields: {
+    id: {
       type: 'string',
-      resolve: (post) => {
-        const wordsPerMinute = 200
-        const words = post.body.raw.split(/\s+/).length
-        const minutes = Math.ceil(words / wordsPerMinute)
-        return `${minutes} min`
-      },
+      resolve: (author) => author._raw.flattenedPath.split('/').pop(),
+    },
+  },
+}))
+
+// Una categoria della sezione Tech Stack per file
+export const TechCategory = defineDocumentType(() => ({
+  name: 'TechCategory',
+  filePathPattern: 'portfolio/tech-stack/*.yaml',
+  contentType: 'data',
+  fields: {
+    order: { type: 'number', required: true },
+    title: { type: 'nested', of: LocalizedText, required: true },
+    // Classi del gradiente Tailwind (es. "from-blue-500 to-cyan-400")
+    color: { type: 'string', required: true },
+    items: { type: 'list', of: TechItem, required: true },
+  },
+}))
+
+export const Skill = defineDocumentType(() => ({
+  name: 'Skill',
+  filePathPattern: 'portfolio/skills/*.yaml',
+  contentType: 'data',
+  fields: {
+    order: { type: 'number', required: true },
+    // Icone disponibili in components/portfolio/SkillStack.tsx
+    icon: {
+      type: 'enum',
+      options: ['server', 'layers', 'database', 'brain', 'zap', 'shield'],
+      required: true,
     },
+    gradient: { type: 'string', required: true },
+    title: { type: 'nested', of: LocalizedText, required: true },
+    description: { type: 'nested', of: LocalizedText, required: true },
+  },
+}))
+
+export const ContactLink = defineDocumentType(() => ({
+  name: 'ContactLink',
+  filePathPattern: 'portfolio/contact-links/*.yaml',
+  contentType: 'data',
+  fields: {
+    order: { type: 'number', required: true },
+    // Icone disponibili in components/portfolio/ContactSection.tsx
+    icon: { type: 'enum', options: ['github', 'linkedin'], required: true },
+    label: { type: 'string', required: true },
+    href: { type: 'string', required: true },
+    gradient: { type: 'string', required: true },
+    value: { type: 'nested', of: LocalizedText, required: true },
+  },
+}))
+
+// Tag animati sullo sfondo della homepage (components/portfolio/FloatingTags.tsx)
+export const TagCloud = defineDocumentType(() => ({
+  name: 'TagCloud',
+  filePathPattern: 'portfolio/floating-tags.yaml',
+  contentType: 'data',
+  isSingleton: true,
+  fields: {
+    tags: { type: 'list', of: FloatingTag, required: true },
   },
 }))
 
 export default makeSource({
   contentDirPath: 'content',
-  documentTypes: [Post],
-  markdown: {
-    rehypePlugins: [
-      rehypeSlug,
-      [
-        rehypePrettyCode,
-        {
-          theme: 'one-dark-pro',
-          keepBackground: false,
-          onVisitLine(node: any) {
-            // Prevent lines from collapsing in `display: grid` mode
-            if (node.children.length === 0) {
-              node.children = [{ type: 'text', value: ' ' }]
-            }
-          },
-          onVisitHighlightedLine(node: any) {
-            node.properties.className = ['highlighted']
-          },
-        },
-      ],
-      [
-        rehypeAutolinkHeadings,
-        {
-          properties: {
-            className: ['anchor'],
-          },
-        },
-      ],
-    ],
+  documentTypes: [MarkdownPost, MdxPost, Author, Project, TechCategory, Skill, ContactLink, TagCloud],
+  markdown: { remarkPlugins, rehypePlugins: rehypePlugins('page') },
+  mdx: { remarkPlugins, rehypePlugins: rehypePlugins('page') },
+  // Link, immagini, ancore, excerpt e slug dei post: gli errori fermano le build di produzione
+  // e `npm run content:check`, in sviluppo vengono solo stampati
+  onSuccess: async (importData) => {
+    const { allMarkdownPosts, allMdxPosts, allProjects, allAuthors } = await importData()
+    const posts = [...allMarkdownPosts, ...allMdxPosts]
+    reportContentIssues(checkContent({ posts, projects: allProjects, authors: allAuthors }), {
+      strict: process.env.NODE_ENV === 'production' || process.env.CONTENT_CHECK === 'strict',
+    })
   },
 })
@@ -0,0 +1,78 @@
+import { createHmac, timingSafeEqual } from 'node:crypto'
+import { cookies, headers } from 'next/headers'
+import { checkRateLimit, createMemoryStore, getClientIp, RateLimitRule } from '@/lib/rate-limit'
+
+// Accesso all'area /admin protetto da una password condivisa (ADMIN_PASSWORD)
+
+export const ADMIN_SESSION_COOKIE = 'admin_session'
+
+const SESSION_MAX_AGE_SECONDS = 60 * 60 * 8
+
+// Tentativi di accesso per IP, in memoria per istanza come il rate limit del form contatti
+const loginRateLimitStore = createMemoryStore()
+
+const LOGIN_RATE_LIMIT: RateLimitRule = { name: 'admin-login', limit: 5, windowMs: 15 * 60 * 1000 }
+
+export type AdminLoginResult = 'success' | 'password' | 'too-many-attempts'
+
+function safeEqual(a: string, b: string) {
+  const left = Buffer.from(a)
+  const right = Buffer.from(b)
+  return left.length === right.length && timingSafeEqual(left, right)
+}
+
+/**
+ * Il token di sessione è l'istante di accesso firmato con la password: cambiarla
+ * invalida automaticamente tutte le sessioni aperte, e la scadenza è verificata
+ * dal server anche se il cookie viene conservato oltre il suo maxAge.
+ */
+function signSession(password: string, issuedAt: string) {
+  return createHmac('sha256', password).update(`lradev-admin-session:${issuedAt}`).digest('hex')
+}
+
+function sessionToken(password: string, now = Date.now()) {
+  const issuedAt = String(now)
+  return `${issuedAt}.${signSession(password, issuedAt)}`
+}
+
+function isValidSession(token: string, password: string, now = Date.now()) {
+  const [issuedAt, signature = ''] = token.split('.')
+  if (!safeEqual(signature, signSession(password, issuedAt))) return false
+
+  const age = now - Number(issuedAt)
+  return Number.isFinite(age) && age >= 0 && age <= SESSION_MAX_AGE_SECONDS * 1000
+}
+
+export function isAdminConfigured() {
+  return Boolean(process.env.ADMIN_PASSWORD)
+}
+
+export async function isAdminAuthenticated() {
+  const password = process.env.ADMIN_PASSWORD
+  if (!password) return false
+
+  const token = (await cookies()).get(ADMIN_SESSION_COOKIE)?.value
+  return Boolean(token) && isValidSession(token as string, password)
+}
+
+export async function startAdminSession(candidate: string): Promise<AdminLoginResult> {
+  // Ogni tentativo conta per l'IP, anche quelli riusciti
+  const limit = await checkRateLimit(loginRateLimitStore, LOGIN_RATE_LIMIT, getClientIp(await headers()))
+  if (!limit.allowed) return 'too-many-attempts'
+
+  const password = process.env.ADMIN_PASSWORD
+  if (!password || !safeEqual(candidate, password)) return 'password'
+
+  ;(await cookies()).set(ADMIN_SESSION_COOKIE, sessionToken(password), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: '/admin',
+    maxAge: SESSION_MAX_AGE_SECONDS,
+  })
+  return 'success'
+}
+
+export async function endAdminSession() {
+  ;(await cookies()).delete({ name: ADMIN_SESSION_COOKIE, path: '/admin' })
+}
@@ -0,0 +1,45 @@
+import { allAuthors, Author } from 'contentlayer/generated'
+import { getSortedPosts, Post } from '@/lib/blog'
+import { Locale, LOCALES, localizedPath } from '@/lib/i18n'
+
+// Autore dei post che non indicano `author` nel frontmatter
+export const DEFAULT_AUTHOR = 'luca-altimare'
+
+export function getAuthorById(id: string): Author | undefined {
+  return allAuthors.find((author) => author.id === id)
+}
+
+function postAuthorId(post: Post) {
+  return post.author || DEFAULT_AUTHOR
+}
+
+// Un id sbagliato nel frontmatter è un errore di contenuto: fa fallire la build invece di sparire in silenzio
+export function getPostAuthor(post: Post): Author {
+  const author = getAuthorById(postAuthorId(post))
+  if (!author) {
+    throw new Error(`Autore "${postAuthorId(post)}" non trovato in content/authors (${post._raw.sourceFilePath})`)
+  }
+  return author
+}
+
+export function getAuthorHref(id: string, locale: Locale) {
+  return localizedPath(locale, `/blog/author/${id}`)
+}
+
+export function getPostsByAuthor(id: string, locale: Locale): Post[] {
+  return getSortedPosts(locale).filter((post) => postAuthorId(post) === id)
+}
+
+// Autori con almeno un articolo nella lingua, in ordine alfabetico
+export function getAuthors(locale: Locale): Author[] {
+  return allAuthors
+    .filter((author) => getPostsByAuthor(author.id, locale).length > 0)
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
+
+// Lingue in cui l'autore ha un archivio, con il relativo percorso
+export function getAuthorPaths(id: string): Partial<Record<Locale, string>> {
+  return Object.fromEntries(
+    LOCALES.flatMap((locale) => (getPostsByAuthor(id, locale).length > 0 ? [[locale, getAuthorHref(id, locale)]] : []))
+  )
+}
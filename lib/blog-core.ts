@@ -0,0 +1,97 @@
+import type { MarkdownPost, MdxPost } from 'contentlayer/generated'
+import { Locale, localizedPath } from '@/lib/i18n'
+import { normalizeText } from '@/lib/search'
+
+/**
+ * Parti del blog che non leggono i contenuti: slug, percorsi, tassonomie e campi
+ * delle card. I componenti client (BlogIndex, PostCard) e lib/projects-core
+ * importano da qui e non da lib/blog, che porterebbe nel bundle del browser tutti
+ * i post con il loro corpo.
+ */
+
+// Un articolo del blog: markdown semplice (.md) o MDX con i componenti di components/blog/mdx (.mdx)
+export type Post = MarkdownPost | MdxPost
+
+// Articoli per pagina nell'indice del blog e negli archivi
+export const POSTS_PER_PAGE = 6
+
+// Campi di un post mostrati nelle card dell'indice e degli archivi
+export type PostSummary = Pick<
+  Post,
+  'slug' | 'locale' | 'title' | 'excerpt' | 'date' | 'readTime' | 'category' | 'tags' | 'series' | 'seriesOrder' | 'draft'
+>
+
+export function toPostSummary(post: Post): PostSummary {
+  return {
+    slug: post.slug,
+    locale: post.locale,
+    title: post.title,
+    excerpt: post.excerpt,
+    date: post.date,
+    readTime: post.readTime,
+    category: post.category,
+    tags: post.tags,
+    series: post.series,
+    seriesOrder: post.seriesOrder,
+    draft: post.draft,
+  }
+}
+
+// Una categoria, un tag o una tecnologia, con il numero di documenti pubblicati che lo usano
+export interface TaxonomyTerm {
+  name: string
+  slug: string
+  count: number
+}
+
+// Termini di una tassonomia con il numero di documenti (post o progetti) che li usano
+export function collectTerms<T>(documents: T[], getTerms: (document: T) => string[]): TaxonomyTerm[] {
+  const terms = new Map<string, TaxonomyTerm>()
+
+  for (const document of documents) {
+    // Un documento conta una sola volta anche se ripete lo stesso termine
+    const slugs = new Set<string>()
+    for (const name of getTerms(document)) {
+      const slug = slugify(name)
+      if (slugs.has(slug)) continue
+      slugs.add(slug)
+
+      const existing = terms.get(slug)
+      if (existing) {
+        existing.count++
+      } else {
+        terms.set(slug, { name, slug, count: 1 })
+      }
+    }
+  }
+
+  return Array.from(terms.values()).sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/**
+ * Normalizza una stringa in uno slug URL-safe ("Clean Architecture" -> "clean-architecture").
+ * Gli accenti vengono rimossi così "Perché" e "Perche" producono lo stesso slug.
+ */
+export function slugify(value: string) {
+  return normalizeText(value)
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+// La prima pagina è /it/blog, le successive /it/blog/page/2, /it/blog/page/3, ...
+export function getBlogPageHref(page: number, locale: Locale) {
+  return localizedPath(locale, page <= 1 ? '/blog' : `/blog/page/${page}`)
+}
+
+export function getPostHref(post: Pick<Post, 'slug' | 'locale'>) {
+  return localizedPath(post.locale, `/blog/${post.slug}`)
+}
+
+export function getCategoryHref(slug: string, locale: Locale) {
+  return localizedPath(locale, `/blog/category/${slug}`)
+}
+
+export function getTagHref(slug: string, locale: Locale) {
+  return localizedPath(locale, `/blog/tag/${slug}`)
+}
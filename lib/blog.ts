@@ -0,0 +1,139 @@
+import { allMarkdownPosts, allMdxPosts } from 'contentlayer/generated'
+import { compareDesc } from 'date-fns'
+import {
+  collectTerms,
+  getCategoryHref,
+  getPostHref,
+  getTagHref,
+  Post,
+  POSTS_PER_PAGE,
+  PostSummary,
+  slugify,
+  TaxonomyTerm,
+  toPostSummary,
+} from '@/lib/blog-core'
+import { Locale, LOCALES, translationPaths } from '@/lib/i18n'
+
+export {
+  collectTerms,
+  getBlogPageHref,
+  getCategoryHref,
+  getPostHref,
+  getTagHref,
+  POSTS_PER_PAGE,
+  slugify,
+  toPostSummary,
+  type Post,
+  type PostSummary,
+  type TaxonomyTerm,
+} from '@/lib/blog-core'
+
+/**
+ * Post visibili nel sito. Le bozze (`draft: true`) restano consultabili in
+ * sviluppo ma vengono escluse dalle build di produzione.
+ */
+export const publishedPosts: Post[] = [...allMarkdownPosts, ...allMdxPosts].filter(
+  (post) => process.env.NODE_ENV !== 'production' || !post.draft
+)
+
+// Ogni lingua ha il suo blog: indici, archivi e feed mostrano solo i post di quella lingua
+export function getLocalePosts(locale: Locale): Post[] {
+  return publishedPosts.filter((post) => post.locale === locale)
+}
+
+// Tutti i post della lingua ordinati dal più recente al più vecchio
+export function getSortedPosts(locale: Locale): Post[] {
+  return getLocalePosts(locale).sort((a, b) =>
+    compareDesc(new Date(a.date), new Date(b.date))
+  )
+}
+
+export function getTotalPages(locale: Locale) {
+  return Math.max(1, Math.ceil(getLocalePosts(locale).length / POSTS_PER_PAGE))
+}
+
+// Articoli di una pagina dell'indice, ridotti ai campi delle card passati al componente client
+export function getPagePosts(locale: Locale, page: number): PostSummary[] {
+  return getSortedPosts(locale)
+    .slice((page - 1) * POSTS_PER_PAGE, page * POSTS_PER_PAGE)
+    .map(toPostSummary)
+}
+
+export function getPostBySlug(slug: string, locale: Locale): Post | undefined {
+  return publishedPosts.find((post) => post.slug === slug && post.locale === locale)
+}
+
+// Percorsi delle traduzioni esistenti dell'articolo, collegate da `translationOf`
+export function getTranslationPaths(post: Post): Partial<Record<Locale, string>> {
+  return translationPaths(post, publishedPosts, getPostHref)
+}
+
+// Data dell'ultima modifica: `updated` se presente, altrimenti la data di pubblicazione
+export function getLastModified(post: Post) {
+  return post.updated || post.date
+}
+
+// Id della card generata da opengraph-image (vedi generateImageMetadata)
+export const POST_IMAGE_ID = 'card'
+
+// Immagine di condivisione: quella del frontmatter o la card generata da opengraph-image
+export function getPostImage(post: Post) {
+  return post.image || `${getPostHref(post)}/opengraph-image/${POST_IMAGE_ID}`
+}
+
+// Post della stessa serie e lingua, ordinati per `seriesOrder` e poi per data
+export function getSeriesPosts(series: string, locale: Locale): Post[] {
+  return getLocalePosts(locale)
+    .filter((post) => post.series === series)
+    .sort((a, b) =>
+      (a.seriesOrder ?? Infinity) - (b.seriesOrder ?? Infinity) ||
+      new Date(a.date).getTime() - new Date(b.date).getTime()
+    )
+}
+
+export function getCategories(locale: Locale): TaxonomyTerm[] {
+  return collectTerms(getLocalePosts(locale), (post) => (post.category ? [post.category] : []))
+}
+
+export function getCategoryBySlug(slug: string, locale: Locale): TaxonomyTerm | undefined {
+  return getCategories(locale).find((category) => category.slug === slug)
+}
+
+export function getPostsByCategory(slug: string, locale: Locale): Post[] {
+  return getSortedPosts(locale).filter(
+    (post) => post.category && slugify(post.category) === slug
+  )
+}
+
+export function getTags(locale: Locale): TaxonomyTerm[] {
+  return collectTerms(getLocalePosts(locale), (post) => post.tags)
+}
+
+export function getTagBySlug(slug: string, locale: Locale): TaxonomyTerm | undefined {
+  return getTags(locale).find((tag) => tag.slug === slug)
+}
+
+export function getPostsByTag(slug: string, locale: Locale): Post[] {
+  return getSortedPosts(locale).filter((post) =>
+    post.tags.some((tag) => slugify(tag) === slug)
+  )
+}
+
+// Lingue in cui esiste un archivio con lo stesso slug, con il relativo percorso
+function termPaths(
+  slug: string,
+  getTerm: (slug: string, locale: Locale) => TaxonomyTerm | undefined,
+  getHref: (slug: string, locale: Locale) => string
+): Partial<Record<Locale, string>> {
+  return Object.fromEntries(
+    LOCALES.flatMap((locale) => (getTerm(slug, locale) ? [[locale, getHref(slug, locale)]] : []))
+  )
+}
+
+export function getCategoryPaths(slug: string) {
+  return termPaths(slug, getCategoryBySlug, getCategoryHref)
+}
+
+export function getTagPaths(slug: string) {
+  return termPaths(slug, getTagBySlug, getTagHref)
+}
@@ -0,0 +1,39 @@
+import type { ShikiTransformer } from 'shiki'
+
+export type DiffMarker = 'add' | 'remove'
+
+// Marcatori di ogni blocco, per riga (1-based), tra preprocess e il rendering delle righe
+const diffMarkers = new WeakMap<object, Map<number, DiffMarker>>()
+
+function hasFlag(meta: string | undefined, flag: string) {
+  return new RegExp(`(^|\\s)${flag}(\\s|$)`).test(meta ?? '')
+}
+
+/**
+ * Blocchi di codice con il flag `diff` nel meta (```python diff): le righe che iniziano
+ * con `+` o `-` vengono evidenziate come aggiunte o rimosse. Il marcatore è tolto dal
+ * codice prima dell'evidenziazione, così la sintassi resta quella del linguaggio e
+ * il CSS lo ridisegna nel margine.
+ */
+export function transformerDiff(): ShikiTransformer {
+  return {
+    name: 'lradev:diff',
+    preprocess(code, options) {
+      if (!hasFlag(options.meta?.__raw, 'diff')) return
+
+      const markers = new Map<number, DiffMarker>()
+      const lines = code.split('\n').map((line, index) => {
+        const marker = line[0]
+        if (marker !== '+' && marker !== '-') return line
+        markers.set(index + 1, marker === '+' ? 'add' : 'remove')
+        return line.slice(1)
+      })
+      diffMarkers.set(this.meta, markers)
+      return lines.join('\n')
+    },
+    line(node, line) {
+      const marker = diffMarkers.get(this.meta)?.get(line)
+      if (marker) node.properties['data-diff'] = marker
+    },
+  }
+}
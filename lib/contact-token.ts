@@ -0,0 +1,35 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto'
+
+/**
+ * Token del form contatti: l'istante in cui il server l'ha emesso, firmato.
+ * Il form lo chiede all'apertura e lo rimanda con l'invio, così il tempo di
+ * compilazione controllato da detectSpam non dipende da un valore del client.
+ */
+
+// Senza CONTACT_FORM_SECRET la chiave vale per la singola istanza: con più istanze va impostata
+const secret = process.env.CONTACT_FORM_SECRET || randomBytes(32).toString('hex')
+
+// Oltre questa età il token non è più accettato e il form va ricaricato
+export const CONTACT_TOKEN_MAX_AGE_MS = 24 * 60 * 60 * 1000
+
+function sign(issuedAt: string) {
+  return createHmac('sha256', secret).update(`contact-form:${issuedAt}`).digest('hex')
+}
+
+export function issueContactToken(now = Date.now()) {
+  const issuedAt = String(now)
+  return `${issuedAt}.${sign(issuedAt)}`
+}
+
+// Millisecondi dall'emissione del token; null se manca, è stato alterato o è scaduto
+export function contactTokenAge(token: unknown, now = Date.now()): number | null {
+  if (typeof token !== 'string') return null
+  const [issuedAt, signature = ''] = token.split('.')
+
+  const expected = Buffer.from(sign(issuedAt))
+  const actual = Buffer.from(signature)
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null
+
+  const age = now - Number(issuedAt)
+  return Number.isFinite(age) && age >= 0 && age <= CONTACT_TOKEN_MAX_AGE_MS ? age : null
+}
@@ -0,0 +1,242 @@
+import { DEFAULT_LOCALE, getMessages, Locale } from '@/lib/i18n'
+
+// Schema del form contatti, condiviso tra ContactForm e /api/contact.
+// Le etichette delle opzioni restano in italiano per email e area admin,
+// il form usa quelle del catalogo della lingua corrente
+
+export interface ContactOption<T extends string = string> {
+  value: T
+  label: string
+}
+
+export const PROJECT_TYPES = [
+  { value: 'web-app', label: 'Applicazione web' },
+  { value: 'api', label: 'API e backend' },
+  { value: 'ai', label: 'Integrazione AI' },
+  { value: 'consulting', label: 'Consulenza tecnica' },
+  { value: 'other', label: 'Altro' },
+] as const satisfies readonly ContactOption[]
+
+export const BUDGET_RANGES = [
+  { value: 'under-2k', label: 'Meno di 2.000 €' },
+  { value: '2k-5k', label: '2.000 – 5.000 €' },
+  { value: '5k-10k', label: '5.000 – 10.000 €' },
+  { value: 'over-10k', label: 'Oltre 10.000 €' },
+  { value: 'undecided', label: 'Da definire' },
+] as const satisfies readonly ContactOption[]
+
+export const TIMELINES = [
+  { value: 'asap', label: 'Il prima possibile' },
+  { value: '1-3-months', label: 'Entro 1–3 mesi' },
+  { value: '3-6-months', label: 'Entro 3–6 mesi' },
+  { value: 'flexible', label: 'Flessibile' },
+] as const satisfies readonly ContactOption[]
+
+export const CONTACT_METHODS = [
+  { value: 'email', label: 'Email' },
+  { value: 'phone', label: 'Telefono' },
+  { value: 'video-call', label: 'Videochiamata' },
+] as const satisfies readonly ContactOption[]
+
+type OptionValue<T extends readonly ContactOption[]> = T[number]['value']
+
+export type ProjectType = OptionValue<typeof PROJECT_TYPES>
+export type BudgetRange = OptionValue<typeof BUDGET_RANGES>
+export type Timeline = OptionValue<typeof TIMELINES>
+export type ContactMethod = OptionValue<typeof CONTACT_METHODS>
+
+export interface ContactFormData {
+  projectType: ProjectType
+  budget: BudgetRange
+  timeline: Timeline
+  message: string
+  name: string
+  email: string
+  contactMethod: ContactMethod
+  // Obbligatorio solo se il contatto preferito è il telefono
+  phone: string
+}
+
+export type ContactField = keyof ContactFormData
+
+// Valori grezzi del form, prima della validazione
+export type ContactFormValues = Record<ContactField, string>
+
+// Campi anti-spam inviati dal form insieme ai dati
+export interface ContactSpamSignals {
+  // Honeypot: nascosto agli utenti, i bot tendono a compilarlo
+  website?: string
+  // Token firmato dal server all'apertura del form (lib/contact-token)
+  formToken?: string
+}
+
+export type ContactFieldErrors = Partial<Record<ContactField | 'attachment', string>>
+
+export type ContactValidationResult =
+  | { success: true; data: ContactFormData }
+  | { success: false; errors: ContactFieldErrors }
+
+export const EMPTY_CONTACT_FORM: ContactFormValues = {
+  projectType: '',
+  budget: '',
+  timeline: '',
+  message: '',
+  name: '',
+  email: '',
+  contactMethod: 'email',
+  phone: '',
+}
+
+export const CONTACT_LIMITS = {
+  name: { min: 2, max: 100 },
+  email: { min: 3, max: 254 },
+  message: { min: 10, max: 5000 },
+  phone: { min: 6, max: 20 },
+} satisfies Partial<Record<ContactField, { min: number; max: number }>>
+
+// Sotto il limite di 4,5 MB del body delle funzioni serverless di Vercel
+export const CONTACT_ATTACHMENT = {
+  field: 'attachment',
+  maxSize: 4 * 1024 * 1024,
+  extensions: ['pdf', 'doc', 'docx', 'odt', 'txt', 'md', 'png', 'jpg', 'jpeg', 'zip'],
+}
+
+export const CONTACT_HONEYPOT_FIELD = 'website'
+
+export const CONTACT_TOKEN_FIELD = 'formToken'
+
+// Sotto questa soglia l'invio è troppo rapido per essere stato scritto da una persona
+export const CONTACT_MIN_FILL_TIME_MS = 3000
+
+// Parte locale secondo RFC 5322 (senza quoted string), dominio con almeno un punto e TLD alfabetico
+const EMAIL_PATTERN =
+  /^[A-Za-z0-9.!#$%&'*+/=?^_`{|}~-]+@(?:[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?\.)+[A-Za-z]{2,63}$/
+
+const PHONE_PATTERN = /^\+?[0-9][0-9 ().-]*[0-9]$/
+
+const LINE_BREAK = /[\r\n]/
+
+export function isValidEmail(value: string) {
+  if (!EMAIL_PATTERN.test(value)) return false
+  const [local] = value.split('@')
+  return local.length <= 64 && !local.startsWith('.') && !local.endsWith('.') && !local.includes('..')
+}
+
+export function optionLabel(options: readonly ContactOption[], value: string) {
+  return options.find((option) => option.value === value)?.label ?? value
+}
+
+function isOption<T extends readonly ContactOption[]>(options: T, value: string): value is OptionValue<T> {
+  return options.some((option) => option.value === value)
+}
+
+function validateLength(field: keyof typeof CONTACT_LIMITS, value: string, locale: Locale) {
+  const { min, max } = CONTACT_LIMITS[field]
+  const messages = getMessages(locale).contact.validation[field]
+  if (!value) return messages.required
+  if (value.length < min) return messages.min(min)
+  if (value.length > max) return messages.max(max)
+  return undefined
+}
+
+/**
+ * Valida e normalizza i dati del form. Accetta input sconosciuto così da
+ * poter essere applicata direttamente al body della richiesta.
+ */
+export function validateContactForm(input: unknown, locale: Locale = DEFAULT_LOCALE): ContactValidationResult {
+  const messages = getMessages(locale).contact.validation
+  const source = typeof input === 'object' && input !== null ? (input as Record<string, unknown>) : {}
+  const read = (field: ContactField) => (typeof source[field] === 'string' ? (source[field] as string).trim() : '')
+
+  const values: ContactFormValues = {
+    projectType: read('projectType'),
+    budget: read('budget'),
+    timeline: read('timeline'),
+    message: read('message').replace(/\r\n?/g, '\n'),
+    name: read('name'),
+    email: read('email'),
+    contactMethod: read('contactMethod') || 'email',
+    phone: read('phone'),
+  }
+
+  const errors: ContactFieldErrors = {}
+
+  if (!isOption(PROJECT_TYPES, values.projectType)) errors.projectType = messages.projectType
+  if (!isOption(BUDGET_RANGES, values.budget)) errors.budget = messages.budget
+  if (!isOption(TIMELINES, values.timeline)) errors.timeline = messages.timeline
+  if (!isOption(CONTACT_METHODS, values.contactMethod)) errors.contactMethod = messages.contactMethod
+
+  const messageError = validateLength('message', values.message, locale)
+  if (messageError) errors.message = messageError
+
+  const nameError = validateLength('name', values.name, locale)
+  if (nameError) {
+    errors.name = nameError
+  } else if (LINE_BREAK.test(values.name)) {
+    errors.name = messages.name.invalid
+  }
+
+  const emailError = validateLength('email', values.email, locale)
+  if (emailError) {
+    errors.email = emailError
+  } else if (!isValidEmail(values.email)) {
+    errors.email = messages.email.invalid
+  }
+
+  if (values.phone || values.contactMethod === 'phone') {
+    const phoneError = validateLength('phone', values.phone, locale)
+    if (phoneError) {
+      errors.phone = phoneError
+    } else if (!PHONE_PATTERN.test(values.phone)) {
+      errors.phone = messages.phone.invalid
+    }
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { success: false, errors }
+  }
+
+  return { success: true, data: values as ContactFormData }
+}
+
+function fileExtension(filename: string) {
+  const dot = filename.lastIndexOf('.')
+  return dot === -1 ? '' : filename.slice(dot + 1).toLowerCase()
+}
+
+// Valida l'allegato facoltativo: funziona sia con File del browser sia lato server
+export function validateAttachment(file: { name: string; size: number }, locale: Locale = DEFAULT_LOCALE) {
+  const messages = getMessages(locale).contact.validation
+  if (!CONTACT_ATTACHMENT.extensions.includes(fileExtension(file.name))) {
+    return messages.attachmentType(CONTACT_ATTACHMENT.extensions.join(', '))
+  }
+  if (file.size > CONTACT_ATTACHMENT.maxSize) {
+    return messages.attachmentSize(CONTACT_ATTACHMENT.maxSize / 1024 / 1024)
+  }
+  return undefined
+}
+
+// Nome file sicuro per header email e filesystem
+export function sanitizeFilename(filename: string) {
+  const base = filename.split(/[\\/]/).pop() ?? ''
+  const cleaned = base.replace(/[^\w.\- ()]+/g, '_').replace(/^\.+/, '').slice(-120)
+  return cleaned || 'allegato'
+}
+
+export type ContactSpamReason = 'honeypot' | 'too-fast' | 'invalid-token'
+
+/**
+ * `elapsedMs` è il tempo dall'apertura del form calcolato dal server sul token
+ * firmato (contactTokenAge), null se il token manca, è alterato o è scaduto.
+ */
+export function detectSpam(input: unknown, elapsedMs: number | null): ContactSpamReason | null {
+  const source = typeof input === 'object' && input !== null ? (input as Record<string, unknown>) : {}
+
+  const honeypot = source[CONTACT_HONEYPOT_FIELD]
+  if (typeof honeypot === 'string' && honeypot.trim() !== '') return 'honeypot'
+
+  if (elapsedMs === null) return 'invalid-token'
+  if (elapsedMs < CONTACT_MIN_FILL_TIME_MS) return 'too-fast'
+
+  return null
+}
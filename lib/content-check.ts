@@ -0,0 +1,297 @@
+import { existsSync, readFileSync } from 'node:fs'
+import path from 'node:path'
+import GithubSlugger from 'github-slugger'
+import type { Nodes, Root } from 'mdast'
+import type { MdxJsxFlowElement, MdxJsxTextElement } from 'mdast-util-mdx-jsx'
+import { toString } from 'mdast-util-to-string'
+import type { Author, Project } from 'contentlayer/generated'
+import type { Post } from '@/lib/blog-core'
+import { DEFAULT_LOCALE, Locale, splitLocalePath } from '@/lib/i18n'
+import { siteConfig } from '@/lib/site'
+import { parsePostBody } from '@/lib/toc'
+
+/**
+ * Controllo di integrità dei post, eseguito a fine build di Contentlayer
+ * (contentlayer.config.ts) e con `npm run content:check`: link interni e ancore
+ * che non portano da nessuna parte, immagini mancanti in public/, excerpt troppo
+ * lunghi per la meta description e file diversi con lo stesso slug.
+ */
+
+// Oltre questa lunghezza i motori di ricerca troncano la meta description
+export const MAX_EXCERPT_LENGTH = 160
+
+export type ContentIssueSeverity = 'error' | 'warning'
+
+export interface ContentIssue {
+  // Percorso del file rispetto alla radice del progetto (content/blog/...)
+  file: string
+  line: number
+  severity: ContentIssueSeverity
+  message: string
+}
+
+export interface ContentCheckData {
+  posts: Post[]
+  projects: Project[]
+  authors: Author[]
+}
+
+export interface ContentCheckOptions {
+  contentDir?: string
+  publicDir?: string
+}
+
+type JsxElement = MdxJsxFlowElement | MdxJsxTextElement
+
+// Un riferimento trovato nel corpo del post: link, immagine o attributo di un componente
+interface Reference {
+  kind: 'link' | 'image'
+  url: string
+  line: number
+}
+
+interface ParsedPost {
+  post: Post
+  file: string
+  source: string
+  // Righe del frontmatter prima del corpo, per riportare le posizioni al file
+  bodyOffset: number
+  references: Reference[]
+  anchors: Set<string>
+}
+
+// Stessi plugin remark di contentlayer.config.ts: le definizioni delle note ([^1]: ...) non sono link
+function stringAttribute(node: JsxElement, name: string) {
+  const attr = node.attributes.find((candidate) => candidate.type === 'mdxJsxAttribute' && candidate.name === name)
+  return typeof attr?.value === 'string' ? attr.value : undefined
+}
+
+// Link e immagini del corpo; i tag HTML e JSX contano per i loro href/src letterali
+function collectReferences(node: Nodes, references: Reference[]) {
+  const line = node.position?.start.line ?? 1
+
+  switch (node.type) {
+    case 'link':
+    case 'definition':
+      references.push({ kind: 'link', url: node.url, line })
+      break
+    case 'image':
+      references.push({ kind: 'image', url: node.url, line })
+      break
+    case 'html':
+      for (const [, attr, url] of node.value.matchAll(/\b(href|src)="([^"]*)"/g)) {
+        references.push({ kind: attr === 'src' ? 'image' : 'link', url, line })
+      }
+      break
+    case 'mdxJsxFlowElement':
+    case 'mdxJsxTextElement': {
+      const href = stringAttribute(node, 'href')
+      const src = stringAttribute(node, 'src')
+      if (href) references.push({ kind: 'link', url: href, line })
+      if (src) references.push({ kind: 'image', url: src, line })
+      break
+    }
+  }
+
+  if ('children' in node) {
+    for (const child of node.children) collectReferences(child, references)
+  }
+}
+
+// Stessi id di rehype-slug (vedi lib/toc): tutti i titoli, nell'ordine del documento
+function collectAnchors(tree: Root) {
+  const slugger = new GithubSlugger()
+  const anchors = new Set<string>()
+  const visit = (node: Nodes) => {
+    if (node.type === 'heading') {
+      anchors.add(slugger.slug(toString(node)))
+      return
+    }
+    if ('children' in node) node.children.forEach(visit)
+  }
+  visit(tree)
+  return anchors
+}
+
+function parsePost(post: Post, contentDir: string): ParsedPost {
+  const file = path.join(contentDir, post._raw.sourceFilePath)
+  const source = existsSync(file) ? readFileSync(file, 'utf8') : post.body.raw
+  const bodyStart = source.lastIndexOf(post.body.raw)
+  const bodyOffset = bodyStart > 0 ? source.slice(0, bodyStart).split('\n').length - 1 : 0
+  const tree = parsePostBody(post)
+  const references: Reference[] = []
+  collectReferences(tree, references)
+
+  return { post, file, source, bodyOffset, references, anchors: collectAnchors(tree) }
+}
+
+// Riga di un campo del frontmatter (`excerpt:`), o la prima riga se non si trova
+function frontmatterLine(source: string, field: string) {
+  const index = source.split('\n').findIndex((line) => line.startsWith(`${field}:`))
+  return index + 1 || 1
+}
+
+// Percorso interno del sito per un URL del contenuto, o null per link esterni, mailto, ecc.
+function internalUrl(url: string): URL | null {
+  if (url.startsWith('//')) return null
+  if (url.startsWith('/') || url.startsWith('#')) return new URL(url, siteConfig.url)
+  if (url.startsWith(siteConfig.url)) return new URL(url)
+  return null
+}
+
+interface CheckContext {
+  data: ContentCheckData
+  parsed: ParsedPost[]
+  publicDir: string
+  issues: ContentIssue[]
+}
+
+function report(context: CheckContext, parsed: ParsedPost, line: number, severity: ContentIssueSeverity, message: string) {
+  context.issues.push({ file: parsed.file, line, severity, message })
+}
+
+function checkExcerpt(context: CheckContext, parsed: ParsedPost) {
+  const { length } = parsed.post.excerpt
+  if (length > MAX_EXCERPT_LENGTH) {
+    report(
+      context,
+      parsed,
+      frontmatterLine(parsed.source, 'excerpt'),
+      'warning',
+      `excerpt di ${length} caratteri: le meta description oltre ${MAX_EXCERPT_LENGTH} vengono troncate`
+    )
+  }
+}
+
+function checkImage(context: CheckContext, parsed: ParsedPost, url: string | undefined, line: number) {
+  if (!url) return
+  const internal = internalUrl(url)
+  if (!internal) {
+    if (!/^[a-z]+:/i.test(url) && !url.startsWith('//')) {
+      report(context, parsed, line, 'error', `immagine "${url}" con percorso relativo: usa un percorso assoluto da public/ (/images/...)`)
+    }
+    return
+  }
+  const file = path.join(context.publicDir, decodeURIComponent(internal.pathname))
+  if (!existsSync(file)) {
+    report(context, parsed, line, 'error', `immagine "${url}" non trovata in ${context.publicDir}/`)
+  }
+}
+
+/**
+ * Pagina di destinazione di un percorso senza prefisso di lingua: il post (per
+ * controllarne le ancore), null se la pagina non esiste, undefined per le pagine
+ * che non dipendono da un singolo contenuto (homepage, indici, categorie, ...).
+ */
+function resolvePage(context: CheckContext, locale: Locale, pathname: string): ParsedPost | null | undefined {
+  const [, section, ...segments] = pathname.split('/')
+  const { data, parsed } = context
+
+  if (section === 'blog' && segments.length === 1) {
+    return parsed.find(({ post }) => post.slug === segments[0] && post.locale === locale) ?? null
+  }
+  if (section === 'blog' && segments.length === 2 && segments[0] === 'author') {
+    return data.authors.some((author) => author.id === segments[1]) ? undefined : null
+  }
+  if (section === 'progetti' && segments.length === 1) {
+    return data.projects.some((project) => project.slug === segments[0] && project.locale === locale) ? undefined : null
+  }
+  return undefined
+}
+
+function checkLink(context: CheckContext, parsed: ParsedPost, url: string, line: number) {
+  if (/\.mdx?(#|$)/.test(url) && !/^[a-z]+:/i.test(url)) {
+    report(context, parsed, line, 'error', `link "${url}" a un file sorgente: usa il percorso dell'articolo (/${parsed.post.locale}/blog/slug)`)
+    return
+  }
+
+  const internal = internalUrl(url)
+  if (!internal) return
+  const anchor = decodeURIComponent(internal.hash.slice(1))
+
+  // Ancora nello stesso articolo
+  if (url.startsWith('#')) {
+    if (anchor && !parsed.anchors.has(anchor)) {
+      report(context, parsed, line, 'error', `ancora "#${anchor}" senza un titolo corrispondente nell'articolo`)
+    }
+    return
+  }
+
+  // I percorsi senza lingua vengono rediretti alla versione italiana (proxy.ts)
+  const [locale, pathname] = splitLocalePath(internal.pathname.replace(/\/+$/, '') || '/')
+  const target = resolvePage(context, locale ?? DEFAULT_LOCALE, pathname)
+  if (target === null) {
+    report(context, parsed, line, 'error', `link interno "${url}" non corrisponde a nessuna pagina`)
+    return
+  }
+  if (!target) return
+  if (target.post.draft && !parsed.post.draft) {
+    report(context, parsed, line, 'warning', `link interno "${url}" a una bozza, esclusa dalle build di produzione`)
+  }
+  if (anchor && !target.anchors.has(anchor)) {
+    report(context, parsed, line, 'error', `ancora "#${anchor}" senza un titolo corrispondente in ${target.file}`)
+  }
+}
+
+// Due file con lo stesso slug nella stessa lingua finirebbero sullo stesso URL
+function checkDuplicateSlugs(context: CheckContext) {
+  const seen = new Map<string, ParsedPost>()
+  for (const parsed of context.parsed) {
+    const key = `${parsed.post.locale}/${parsed.post.slug}`
+    const first = seen.get(key)
+    if (first) {
+      report(context, parsed, 1, 'error', `slug "${parsed.post.slug}" (${parsed.post.locale}) già usato da ${first.file}`)
+    } else {
+      seen.set(key, parsed)
+    }
+  }
+}
+
+export function checkContent(
+  data: ContentCheckData,
+  { contentDir = 'content', publicDir = 'public' }: ContentCheckOptions = {}
+): ContentIssue[] {
+  const context: CheckContext = {
+    data,
+    parsed: data.posts.map((post) => parsePost(post, contentDir)),
+    publicDir,
+    issues: [],
+  }
+
+  for (const parsed of context.parsed) {
+    checkExcerpt(context, parsed)
+    checkImage(context, parsed, parsed.post.image, frontmatterLine(parsed.source, 'image'))
+    for (const reference of parsed.references) {
+      const line = parsed.bodyOffset + reference.line
+      if (reference.kind === 'image') {
+        checkImage(context, parsed, reference.url, line)
+      } else {
+        checkLink(context, parsed, reference.url, line)
+      }
+    }
+  }
+  checkDuplicateSlugs(context)
+
+  return context.issues
+}
+
+// Formato file:riga, riconosciuto dagli editor e dai log della CI
+export function formatIssue(issue: ContentIssue) {
+  return `${issue.file}:${issue.line} ${issue.severity === 'error' ? 'errore' : 'avviso'}: ${issue.message}`
+}
+
+/**
+ * Stampa i problemi trovati. Con `strict` (build di produzione e controllo da
+ * riga di comando) gli errori fanno fallire il processo; in sviluppo restano avvisi.
+ */
+export function reportContentIssues(issues: ContentIssue[], { strict }: { strict: boolean }) {
+  for (const issue of issues) {
+    const log = issue.severity === 'error' ? console.error : console.warn
+    log(formatIssue(issue))
+  }
+
+  const errors = issues.filter((issue) => issue.severity === 'error').length
+  if (strict && errors > 0) {
+    throw new Error(`Controllo dei contenuti fallito: ${errors} ${errors === 1 ? 'errore' : 'errori'}`)
+  }
+}
@@ -0,0 +1,258 @@
+import { instance, type Viz } from '@viz-js/viz'
+import { renderMermaidSVG } from 'beautiful-mermaid'
+import type { Element, ElementContent, Root, RootContent } from 'hast'
+import { fromHtml } from 'hast-util-from-html'
+
+/**
+ * Diagrammi nei blocchi di codice ```mermaid e ```dot, disegnati come SVG inline
+ * durante la build: niente JavaScript nel browser e nessuna richiesta di rete.
+ * I colori sono i token del sito (vedi la sezione DIAGRAMMI di blog.css), così
+ * seguono il tema chiaro/scuro come il resto dell'articolo.
+ *
+ * Il testo alternativo viene, in ordine, da `alt="..."` nel meta del blocco,
+ * da `accDescr:` (mermaid) o dalla struttura del grafo: nodi e archi con le
+ * relative etichette. `title="..."` diventa la didascalia della figura.
+ */
+
+export type DiagramLanguage = 'mermaid' | 'dot'
+
+const LANGUAGES: DiagramLanguage[] = ['mermaid', 'dot']
+
+interface DiagramEdge {
+  from: string
+  to: string
+  label?: string
+}
+
+interface RenderedDiagram {
+  svg: Element
+  // Titolo e descrizione scritti nel sorgente (accTitle/accDescr, label del grafo)
+  title?: string
+  description?: string
+}
+
+// Il modulo WebAssembly di Graphviz si carica una volta sola per tutta la build
+let viz: Promise<Viz> | undefined
+
+function metaAttribute(meta: string, name: string) {
+  return meta.match(new RegExp(`(?:^|\\s)${name}="([^"]*)"`))?.[1]
+}
+
+function diagramLanguage(node: Element): DiagramLanguage | undefined {
+  const code = node.children.find((child): child is Element => child.type === 'element')
+  if (node.tagName !== 'pre' || code?.tagName !== 'code') return undefined
+  const classes = Array.isArray(code.properties.className) ? code.properties.className : []
+  return LANGUAGES.find((language) => classes.includes(`language-${language}`))
+}
+
+function textContent(node: ElementContent | RootContent): string {
+  if (node.type === 'text') return node.value
+  if (node.type !== 'element') return ''
+  return node.children.map(textContent).join('')
+}
+
+function elements(node: Element, test: (element: Element) => boolean, found: Element[] = []) {
+  for (const child of node.children) {
+    if (child.type !== 'element') continue
+    if (test(child)) found.push(child)
+    elements(child, test, found)
+  }
+  return found
+}
+
+function hasClass(node: Element, className: string) {
+  return Array.isArray(node.properties.className) && node.properties.className.includes(className)
+}
+
+// Solo l'elemento <svg>: via prologo XML, doctype, commenti e fogli di stile
+function parseSvg(html: string): Element {
+  const svg = fromHtml(html, { fragment: true, space: 'svg' }).children.find(
+    (child): child is Element => child.type === 'element' && child.tagName === 'svg'
+  )
+  if (!svg) throw new Error('il renderer non ha prodotto un elemento <svg>')
+
+  const clean = (node: Element) => {
+    node.children = node.children.filter(
+      (child) => child.type !== 'comment' && !(child.type === 'element' && child.tagName === 'style')
+    )
+    for (const child of node.children) if (child.type === 'element') clean(child)
+  }
+  clean(svg)
+  return svg
+}
+
+// Più diagrammi nella stessa pagina: id (marker, gruppi) e riferimenti url(#...) con un prefisso
+function prefixIds(node: Element, prefix: string) {
+  for (const [key, value] of Object.entries(node.properties)) {
+    if (typeof value !== 'string') continue
+    if (key === 'id') {
+      node.properties.id = `${prefix}${value}`
+    } else if ((key === 'href' || key === 'xLinkHref') && value.startsWith('#')) {
+      node.properties[key] = `#${prefix}${value.slice(1)}`
+    } else {
+      node.properties[key] = value.replace(/url\(#([^)]+)\)/g, `url(#${prefix}$1)`)
+    }
+  }
+  for (const child of node.children) if (child.type === 'element') prefixIds(child, prefix)
+}
+
+// "Controller → Use case (chiama); Use case → Database", oppure l'elenco dei nodi se non ci sono archi
+function describeGraph(nodes: Map<string, string>, edges: DiagramEdge[]) {
+  const label = (id: string) => nodes.get(id) || id
+  if (edges.length === 0) return [...nodes.values()].filter(Boolean).join(', ')
+  return edges
+    .map((edge) => `${label(edge.from)} → ${label(edge.to)}${edge.label ? ` (${edge.label})` : ''}`)
+    .join('; ')
+}
+
+function renderMermaid(code: string): RenderedDiagram {
+  let title: string | undefined
+  let description: string | undefined
+  // accTitle/accDescr sono la sintassi di mermaid per l'accessibilità: il renderer non le conosce
+  const source = code
+    .split('\n')
+    .filter((line) => {
+      const match = line.match(/^\s*acc(Title|Descr)\s*:\s*(.*)$/)
+      if (!match) return true
+      if (match[1] === 'Title') title = match[2].trim()
+      else description = match[2].trim()
+      return false
+    })
+    .join('\n')
+
+  const svg = parseSvg(
+    renderMermaidSVG(source, { bg: 'var(--background)', fg: 'var(--foreground)', transparent: true })
+  )
+  const nodes = new Map(
+    elements(svg, (node) => hasClass(node, 'node') && node.properties.dataId !== undefined).map((node) => [
+      String(node.properties.dataId),
+      String(node.properties.dataLabel ?? ''),
+    ])
+  )
+  const edges = elements(svg, (node) => hasClass(node, 'edge') && node.properties.dataFrom !== undefined).map(
+    (node): DiagramEdge => ({
+      from: String(node.properties.dataFrom),
+      to: String(node.properties.dataTo),
+      label: node.properties.dataLabel ? String(node.properties.dataLabel) : undefined,
+    })
+  )
+
+  return { svg, title, description: description || describeGraph(nodes, edges) || undefined }
+}
+
+async function renderDot(code: string): Promise<RenderedDiagram> {
+  viz ??= instance()
+  const fontname = 'sans-serif'
+  const svg = parseSvg(
+    (await viz).renderString(code, {
+      format: 'svg',
+      // Valori di default: gli attributi scritti nel sorgente hanno la precedenza
+      graphAttributes: { bgcolor: 'transparent', fontname },
+      nodeAttributes: { fontname, shape: 'box', style: 'rounded' },
+      edgeAttributes: { fontname },
+    })
+  )
+
+  // Il nero di default di Graphviz diventa il colore del testo del tema
+  const recolor = (node: Element) => {
+    for (const key of ['fill', 'stroke']) {
+      if (node.properties[key] === 'black') node.properties[key] = 'currentColor'
+    }
+    if (node.tagName === 'text' && node.properties.fill === undefined) node.properties.fill = 'currentColor'
+    for (const child of node.children) if (child.type === 'element') recolor(child)
+  }
+  recolor(svg)
+
+  // Ogni nodo e arco ha un <title> con l'id ("a", "a->b") seguito dalle etichette in <text>
+  const titleOf = (node: Element) =>
+    textContent(node.children.find((child) => child.type === 'element' && child.tagName === 'title') ?? node)
+  const labelOf = (node: Element) =>
+    elements(node, (child) => child.tagName === 'text')
+      .map(textContent)
+      .join(' ')
+      .trim()
+
+  const nodes = new Map(elements(svg, (node) => hasClass(node, 'node')).map((node) => [titleOf(node), labelOf(node)]))
+  const edges = elements(svg, (node) => hasClass(node, 'edge')).map((node): DiagramEdge => {
+    const [from, to = ''] = titleOf(node).split(/->|--/)
+    return { from, to, label: labelOf(node) || undefined }
+  })
+  // L'etichetta del grafo è il testo diretto del gruppo principale
+  const graph = elements(svg, (node) => hasClass(node, 'graph'))[0]
+  const title = graph?.children
+    .filter((child) => child.type === 'element' && child.tagName === 'text')
+    .map(textContent)
+    .join(' ')
+    .trim()
+
+  return { svg, title: title || undefined, description: describeGraph(nodes, edges) || undefined }
+}
+
+function element(tagName: string, children: ElementContent[], properties: Element['properties'] = {}): Element {
+  return { type: 'element', tagName, properties, children }
+}
+
+function figure(
+  language: DiagramLanguage,
+  code: string,
+  meta: string,
+  diagram: RenderedDiagram,
+  index: number
+): Element {
+  const { svg } = diagram
+  const prefix = `diagram-${index}-`
+  prefixIds(svg, prefix)
+
+  const caption = metaAttribute(meta, 'title')
+  const title = caption || diagram.title
+  // Senza nessuna informazione il sorgente stesso è l'alternativa testuale più fedele
+  const description = metaAttribute(meta, 'alt') || diagram.description || code.trim()
+
+  // Il titolo dà il nome all'immagine, la descrizione (se c'è anche un titolo) la completa
+  svg.properties.role = 'img'
+  svg.properties.ariaLabelledBy = `${prefix}title`
+  svg.children.unshift(element('title', [{ type: 'text', value: title || description }], { id: `${prefix}title` }))
+  if (title) {
+    svg.properties.ariaDescribedBy = `${prefix}desc`
+    svg.children.splice(1, 0, element('desc', [{ type: 'text', value: description }], { id: `${prefix}desc` }))
+  }
+
+  return element('figure', [svg, ...(caption ? [element('figcaption', [{ type: 'text', value: caption }])] : [])], {
+    className: ['diagram'],
+    dataDiagram: language,
+  })
+}
+
+/**
+ * Plugin rehype: sostituisce i blocchi ```mermaid e ```dot con una <figure> che
+ * contiene l'SVG. Va prima di rehype-pretty-code, che altrimenti li evidenzierebbe
+ * come codice. Un diagramma che non si riesce a disegnare fa fallire la build.
+ */
+export function rehypeDiagrams() {
+  return async (tree: Root) => {
+    const blocks: { parent: Root | Element; node: Element; language: DiagramLanguage }[] = []
+    const collect = (parent: Root | Element) => {
+      for (const child of parent.children) {
+        if (child.type !== 'element') continue
+        const language = diagramLanguage(child)
+        if (language) blocks.push({ parent, node: child, language })
+        else collect(child)
+      }
+    }
+    collect(tree)
+
+    for (const [index, { parent, node, language }] of blocks.entries()) {
+      const code = node.children.find((child): child is Element => child.type === 'element')!
+      const source = textContent(code)
+      const meta = (code.data as { meta?: string } | undefined)?.meta ?? ''
+
+      let diagram: RenderedDiagram
+      try {
+        diagram = language === 'mermaid' ? renderMermaid(source) : await renderDot(source)
+      } catch (error) {
+        throw new Error(`Diagramma ${language} non valido: ${error instanceof Error ? error.message : String(error)}`)
+      }
+      parent.children[parent.children.indexOf(node)] = figure(language, source, meta, diagram, index + 1)
+    }
+  }
+}
@@ -0,0 +1,189 @@
+import { getPostAuthor } from '@/lib/authors'
+import { getCategoryHref, getLastModified, getPostHref, Post, TaxonomyTerm } from '@/lib/blog'
+import { getMessages, Locale, localeConfig, localizedPath } from '@/lib/i18n'
+import { absoluteUrl, siteConfig } from '@/lib/site'
+
+export interface FeedOptions {
+  title: string
+  description: string
+  locale: Locale
+  // Pagina HTML a cui fa riferimento il feed (es. /it/blog o /it/blog/category/backend)
+  link: string
+  // Prefisso sotto cui sono pubblicati feed.xml, atom.xml e feed.json
+  feedBase: string
+}
+
+export const FEED_CONTENT_TYPES = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8',
+}
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+// Una sezione CDATA non può contenere "]]>", quindi la spezziamo in due sezioni
+function cdata(value: string) {
+  return `<![CDATA[${value.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`
+}
+
+function postUrl(post: Post) {
+  return absoluteUrl(getPostHref(post))
+}
+
+/**
+ * HTML del post per i feed: i lettori non conoscono l'indirizzo del sito, quindi
+ * immagini e link relativi (/images/..., /it/blog/...) diventano assoluti. Le
+ * ancore (#...) restano com'erano: puntano dentro l'articolo, anche negli SVG.
+ */
+function postContent(post: Post) {
+  return post.html.replace(/(\s(?:href|src))="([^"#][^"]*)"/g, (match, attribute: string, url: string) =>
+    /^[a-z][a-z0-9+.-]*:|^\/\//i.test(url) ? match : `${attribute}="${absoluteUrl(url)}"`
+  )
+}
+
+function postAuthor(post: Post) {
+  return getPostAuthor(post).name
+}
+
+// Categoria e tag di un post, senza duplicati
+function postTerms(post: Post) {
+  const terms = [post.category, ...post.tags].filter((term): term is string => Boolean(term))
+  return Array.from(new Set(terms))
+}
+
+function lastUpdated(posts: Post[]) {
+  if (posts.length === 0) return new Date()
+  return new Date(Math.max(...posts.map((post) => new Date(getLastModified(post)).getTime())))
+}
+
+export function buildRssFeed(posts: Post[], options: FeedOptions) {
+  const items = posts
+    .map((post) => {
+      const url = postUrl(post)
+      return `    <item>
+      <title>${escapeXml(post.title)}</title>
+      <link>${url}</link>
+      <guid isPermaLink="true">${url}</guid>
+      <pubDate>${new Date(post.date).toUTCString()}</pubDate>
+      <dc:creator>${escapeXml(postAuthor(post))}</dc:creator>
+${postTerms(post).map((term) => `      <category>${escapeXml(term)}</category>\n`).join('')}      <description>${escapeXml(post.excerpt)}</description>
+      <content:encoded>${cdata(postContent(post))}</content:encoded>
+    </item>`
+    })
+    .join('\n')
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>${escapeXml(options.title)}</title>
+    <link>${absoluteUrl(options.link)}</link>
+    <description>${escapeXml(options.description)}</description>
+    <language>${localeConfig[options.locale].language}</language>
+    <lastBuildDate>${lastUpdated(posts).toUTCString()}</lastBuildDate>
+    <atom:link href="${absoluteUrl(`${options.feedBase}/feed.xml`)}" rel="self" type="application/rss+xml" />
+${items}
+  </channel>
+</rss>
+`
+}
+
+export function buildAtomFeed(posts: Post[], options: FeedOptions) {
+  const entries = posts
+    .map((post) => {
+      const url = postUrl(post)
+      const published = new Date(post.date).toISOString()
+      const updated = new Date(getLastModified(post)).toISOString()
+      return `  <entry>
+    <id>${url}</id>
+    <title>${escapeXml(post.title)}</title>
+    <link rel="alternate" type="text/html" href="${url}" />
+    <published>${published}</published>
+    <updated>${updated}</updated>
+    <author>
+      <name>${escapeXml(postAuthor(post))}</name>
+    </author>
+${postTerms(post).map((term) => `    <category term="${escapeXml(term)}" />\n`).join('')}    <summary>${escapeXml(post.excerpt)}</summary>
+    <content type="html">${escapeXml(postContent(post))}</content>
+  </entry>`
+    })
+    .join('\n')
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${localeConfig[options.locale].language}">
+  <id>${absoluteUrl(options.link)}</id>
+  <title>${escapeXml(options.title)}</title>
+  <subtitle>${escapeXml(options.description)}</subtitle>
+  <link rel="alternate" type="text/html" href="${absoluteUrl(options.link)}" />
+  <link rel="self" type="application/atom+xml" href="${absoluteUrl(`${options.feedBase}/atom.xml`)}" />
+  <updated>${lastUpdated(posts).toISOString()}</updated>
+  <author>
+    <name>${escapeXml(siteConfig.author)}</name>
+    <uri>${siteConfig.url}</uri>
+  </author>
+${entries}
+</feed>
+`
+}
+
+export function buildJsonFeed(posts: Post[], options: FeedOptions) {
+  const feed = {
+    version: 'https://jsonfeed.org/version/1.1',
+    title: options.title,
+    description: options.description,
+    home_page_url: absoluteUrl(options.link),
+    feed_url: absoluteUrl(`${options.feedBase}/feed.json`),
+    language: localeConfig[options.locale].language,
+    authors: [{ name: siteConfig.author, url: siteConfig.url }],
+    items: posts.map((post) => ({
+      id: postUrl(post),
+      url: postUrl(post),
+      title: post.title,
+      summary: post.excerpt,
+      content_html: postContent(post),
+      date_published: new Date(post.date).toISOString(),
+      date_modified: new Date(getLastModified(post)).toISOString(),
+      authors: [{ name: postAuthor(post) }],
+      tags: postTerms(post),
+    })),
+  }
+
+  return JSON.stringify(feed, null, 2)
+}
+
+export function blogFeedOptions(locale: Locale): FeedOptions {
+  const { blog } = getMessages(locale)
+  return {
+    title: blog.title,
+    description: blog.description,
+    locale,
+    link: localizedPath(locale, '/blog'),
+    feedBase: localizedPath(locale),
+  }
+}
+
+export function categoryFeedOptions(category: TaxonomyTerm, locale: Locale): FeedOptions {
+  const { blog } = getMessages(locale)
+  return {
+    title: `${blog.title} - ${category.name}`,
+    description: blog.archive.categoryFeedDescription(category.name),
+    locale,
+    link: getCategoryHref(category.slug, locale),
+    feedBase: getCategoryHref(category.slug, locale),
+  }
+}
+
+// Link `<link rel="alternate">` per l'auto-discovery dei feed, nel formato di `Metadata.alternates.types`
+export function feedAlternates(options: FeedOptions) {
+  return {
+    'application/rss+xml': [{ url: `${options.feedBase}/feed.xml`, title: `${options.title} (RSS)` }],
+    'application/atom+xml': [{ url: `${options.feedBase}/atom.xml`, title: `${options.title} (Atom)` }],
+    'application/feed+json': [{ url: `${options.feedBase}/feed.json`, title: `${options.title} (JSON Feed)` }],
+  }
+}
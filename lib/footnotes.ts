@@ -0,0 +1,90 @@
+import type { Element, ElementContent, Root } from 'hast'
+import type { Plugin } from 'unified'
+import { DEFAULT_LOCALE, getMessages, isLocale, Locale } from '@/lib/i18n'
+
+/**
+ * Note a piè di pagina di remark-gfm ([^1]): la sezione in fondo all'articolo e i
+ * link di ritorno escono da remark-rehype con le etichette in inglese, qui prendono
+ * quelle della lingua dell'articolo. Con `previews` ogni richiamo riceve anche una
+ * copia del testo della nota, mostrata al passaggio del mouse o al focus dal CSS
+ * (blog.css): nessun JavaScript nel browser.
+ */
+
+export interface FootnoteOptions {
+  // I feed non caricano il CSS che nasconde le anteprime
+  previews?: boolean
+}
+
+// Stessa convenzione dello slug: le traduzioni stanno in una cartella per lingua (blog/en/...)
+function documentLocale(data: Record<string, unknown>): Locale {
+  const raw = data.rawDocumentData as { sourceFilePath?: string } | undefined
+  const folder = raw?.sourceFilePath?.split('/')[1]
+  return isLocale(folder) ? folder : DEFAULT_LOCALE
+}
+
+function element(tagName: string, children: ElementContent[], properties: Element['properties'] = {}): Element {
+  return { type: 'element', tagName, properties, children }
+}
+
+function walk(node: Root | Element, visit: (element: Element) => void) {
+  for (const child of node.children) {
+    if (child.type !== 'element') continue
+    visit(child)
+    walk(child, visit)
+  }
+}
+
+// Copia del contenuto di una nota senza link di ritorno, id duplicati e link annidati nel richiamo
+function previewContent(nodes: ElementContent[]): ElementContent[] {
+  return nodes.flatMap((node): ElementContent[] => {
+    if (node.type !== 'element') return [structuredClone(node)]
+    if (node.properties.dataFootnoteBackref !== undefined) return []
+    const properties = { ...node.properties }
+    delete properties.id
+    delete properties.href
+    return [element(node.tagName === 'a' ? 'span' : node.tagName, previewContent(node.children), properties)]
+  })
+}
+
+export const rehypeFootnotes: Plugin<[FootnoteOptions?], Root> = ({ previews = false } = {}) => {
+  return (tree, file) => {
+    const { footnotes: labels } = getMessages(documentLocale(file.data)).blog
+    const notes = new Map<string, Element>()
+    const references: Element[] = []
+
+    walk(tree, (node) => {
+      if (node.tagName === 'h2' && node.properties.id === 'footnote-label') {
+        node.children = [{ type: 'text', value: labels.label }]
+      } else if (node.tagName === 'li' && String(node.properties.id ?? '').startsWith('user-content-fn-')) {
+        notes.set(String(node.properties.id), node)
+      } else if (node.tagName === 'a' && node.properties.dataFootnoteBackref !== undefined) {
+        // "Back to reference 1", o "1-2" per il secondo richiamo della stessa nota
+        const reference = String(node.properties.ariaLabel ?? '').match(/\d+(?:-\d+)?$/)?.[0] ?? ''
+        node.properties.ariaLabel = labels.backToReference(reference)
+      } else if (node.tagName === 'sup') {
+        const link = node.children.find(
+          (child): child is Element => child.type === 'element' && child.tagName === 'a'
+        )
+        if (link?.properties.dataFootnoteRef !== undefined) references.push(node)
+      }
+    })
+
+    if (!previews) return
+    for (const reference of references) {
+      const link = reference.children.find((child): child is Element => child.type === 'element')!
+      const note = notes.get(String(link.properties.href).slice(1))
+      if (!note) continue
+
+      // Solo i paragrafi: blocchi di codice ed elenchi restano nella sezione delle note
+      const paragraphs = note.children.filter(
+        (child): child is Element => child.type === 'element' && child.tagName === 'p'
+      )
+      const content = paragraphs.flatMap((paragraph, index) => [
+        ...(index > 0 ? [{ type: 'text', value: ' ' } as const] : []),
+        ...previewContent(paragraph.children),
+      ])
+      reference.properties.className = ['footnote-ref']
+      reference.children.push(element('span', content, { className: ['footnote-preview'], ariaHidden: 'true' }))
+    }
+  }
+}
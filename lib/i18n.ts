@@ -0,0 +1,120 @@
+import it from '@/messages/it'
+import en from '@/messages/en'
+
+// Lingue del sito: ogni pagina vive sotto /it o /en
+
+export const LOCALES = ['it', 'en'] as const
+
+export type Locale = (typeof LOCALES)[number]
+
+export const DEFAULT_LOCALE: Locale = 'it'
+
+// Cookie impostato dal selettore di lingua, letto dal proxy per la homepage
+export const LOCALE_COOKIE = 'NEXT_LOCALE'
+
+export const localeConfig: Record<Locale, { label: string; language: string; openGraph: string }> = {
+  it: { label: 'Italiano', language: 'it-IT', openGraph: 'it_IT' },
+  en: { label: 'English', language: 'en-US', openGraph: 'en_US' },
+}
+
+const messages = { it, en }
+
+export type Messages = typeof it
+
+export function getMessages(locale: Locale): Messages {
+  return messages[locale]
+}
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale)
+}
+
+// Parametro [locale] delle route: valori diversi da LOCALES non superano il layout
+export function toLocale(value: string): Locale {
+  return isLocale(value) ? value : DEFAULT_LOCALE
+}
+
+/**
+ * Prima lingua supportata tra i candidati: un valore esplicito ("en") o un
+ * header Accept-Language ("en-US,en;q=0.9"). In mancanza, l'italiano.
+ */
+export function negotiateLocale(...candidates: (string | null | undefined)[]): Locale {
+  for (const candidate of candidates) {
+    if (!candidate) continue
+    for (const part of candidate.split(',')) {
+      const language = part.split(';')[0].trim().slice(0, 2).toLowerCase()
+      if (isLocale(language)) return language
+    }
+  }
+  return DEFAULT_LOCALE
+}
+
+// "/blog" -> "/en/blog", "/" -> "/en"
+export function localizedPath(locale: Locale, path: string = '/') {
+  return path === '/' ? `/${locale}` : `/${locale}${path}`
+}
+
+// Lingua e percorso senza prefisso di un pathname ("/en/blog" -> ["en", "/blog"])
+export function splitLocalePath(pathname: string): [Locale | null, string] {
+  const [, first, ...rest] = pathname.split('/')
+  if (!isLocale(first)) return [null, pathname]
+  return [first, `/${rest.join('/')}`]
+}
+
+/**
+ * Link `hreflang` nel formato di `Metadata.alternates.languages` e delle
+ * sitemap. `x-default` punta alla versione italiana quando esiste.
+ */
+export function languageAlternates(paths: Partial<Record<Locale, string>>) {
+  const languages: Record<string, string> = {}
+  for (const locale of LOCALES) {
+    const path = paths[locale]
+    if (path) languages[locale] = path
+  }
+  const fallback = paths[DEFAULT_LOCALE] ?? Object.values(paths)[0]
+  if (fallback) languages['x-default'] = fallback
+  return languages
+}
+
+// Stesso percorso in tutte le lingue (homepage, indice del blog, ...)
+export function sharedAlternates(path: string) {
+  return languageAlternates(Object.fromEntries(LOCALES.map((locale) => [locale, localizedPath(locale, path)])))
+}
+
+// Contenuto tradotto: post e progetti collegano le traduzioni allo slug dell'originale italiano
+interface Translatable {
+  slug: string
+  locale: Locale
+  translationOf?: string
+}
+
+// Versioni dello stesso contenuto nelle varie lingue, incluso il documento stesso
+export function findTranslations<T extends Translatable>(document: T, documents: T[]): Partial<Record<Locale, T>> {
+  const key = document.translationOf ?? document.slug
+  const translations: Partial<Record<Locale, T>> = { [document.locale]: document }
+  for (const candidate of documents) {
+    if (candidate.locale !== document.locale && (candidate.translationOf ?? candidate.slug) === key) {
+      translations[candidate.locale] = candidate
+    }
+  }
+  return translations
+}
+
+// Percorsi delle traduzioni esistenti, per hreflang e selettore di lingua
+export function translationPaths<T extends Translatable>(
+  document: T,
+  documents: T[],
+  getHref: (document: T) => string
+): Partial<Record<Locale, string>> {
+  const translations = findTranslations(document, documents)
+  return Object.fromEntries(
+    LOCALES.flatMap((locale) => {
+      const translation = translations[locale]
+      return translation ? [[locale, getHref(translation)]] : []
+    })
+  )
+}
+
+export function formatDate(date: string | Date, locale: Locale, options: Intl.DateTimeFormatOptions) {
+  return new Date(date).toLocaleDateString(localeConfig[locale].language, options)
+}
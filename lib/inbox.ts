@@ -0,0 +1,279 @@
+import { randomUUID } from 'node:crypto'
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { ContactFormData } from '@/lib/contact'
+import { normalizeText } from '@/lib/search'
+
+// Archivio dei messaggi ricevuti dal form contatti, con lo stato di consegna dell'email
+
+export type DeliveryStatus = 'pending' | 'sent' | 'failed'
+
+export interface ContactAttachment {
+  filename: string
+  contentType: string
+  size: number
+}
+
+export interface ContactAttachmentFile extends ContactAttachment {
+  content: Buffer
+}
+
+export interface ContactSubmission extends ContactFormData {
+  id: string
+  locale: string
+  // Solo i metadati: il contenuto si legge con InboxStore.getAttachment
+  attachment?: ContactAttachment
+  createdAt: string
+  status: DeliveryStatus
+  attempts: number
+  lastAttemptAt?: string
+  lastError?: string
+  // Esito della conferma al visitatore, separato dalla notifica che decide `status`
+  confirmationSent?: boolean
+  handled: boolean
+  handledAt?: string
+}
+
+export type NewContactSubmission = ContactFormData & { locale: string }
+
+export type ContactSubmissionPatch = Partial<Omit<ContactSubmission, 'id' | 'createdAt'>>
+
+/**
+ * Persistenza dei messaggi. Il file JSON basta per un sito personale su una
+ * singola istanza; per database veri (SQLite, Postgres, KV...) si implementa
+ * la stessa interfaccia e la si seleziona in getInboxStore.
+ */
+export interface InboxStore {
+  list(): Promise<ContactSubmission[]>
+  get(id: string): Promise<ContactSubmission | undefined>
+  create(submission: NewContactSubmission, attachment?: ContactAttachmentFile): Promise<ContactSubmission>
+  update(id: string, patch: ContactSubmissionPatch): Promise<ContactSubmission | undefined>
+  getAttachment(id: string): Promise<ContactAttachmentFile | undefined>
+}
+
+// Oltre questo numero di tentativi falliti il retry automatico si ferma
+export const MAX_DELIVERY_ATTEMPTS = 5
+
+// Un invio in corso resta `pending`: oltre questo tempo si considera interrotto e si può ritentare
+export const PENDING_DELIVERY_TIMEOUT_MS = 10 * 60 * 1000
+
+// Consegne da ritentare: fallite, o in sospeso da troppo tempo (mai un invio ancora in corso)
+export function isDeliveryRetryable(submission: ContactSubmission, now = Date.now()) {
+  if (submission.status === 'failed') return true
+  if (submission.status !== 'pending') return false
+  const startedAt = new Date(submission.lastAttemptAt ?? submission.createdAt).getTime()
+  return now - startedAt > PENDING_DELIVERY_TIMEOUT_MS
+}
+
+export const inboxConfig = {
+  store: process.env.INBOX_STORE || 'json',
+  file: process.env.INBOX_FILE || '.data/contact-submissions.json',
+}
+
+function newSubmission(input: NewContactSubmission, attachment?: ContactAttachmentFile): ContactSubmission {
+  return {
+    ...input,
+    ...(attachment && {
+      attachment: { filename: attachment.filename, contentType: attachment.contentType, size: attachment.size },
+    }),
+    id: randomUUID(),
+    createdAt: new Date().toISOString(),
+    status: 'pending',
+    attempts: 0,
+    handled: false,
+  }
+}
+
+export function createMemoryInboxStore(initial: ContactSubmission[] = []): InboxStore {
+  const submissions = new Map(initial.map((submission) => [submission.id, submission]))
+  const attachments = new Map<string, ContactAttachmentFile>()
+
+  return {
+    async list() {
+      return [...submissions.values()]
+    },
+    async get(id) {
+      return submissions.get(id)
+    },
+    async create(input, attachment) {
+      const submission = newSubmission(input, attachment)
+      submissions.set(submission.id, submission)
+      if (attachment) attachments.set(submission.id, attachment)
+      return submission
+    },
+    async update(id, patch) {
+      const current = submissions.get(id)
+      if (!current) return undefined
+      const updated = { ...current, ...patch }
+      submissions.set(id, updated)
+      return updated
+    },
+    async getAttachment(id) {
+      return attachments.get(id)
+    },
+  }
+}
+
+// Gli allegati sono salvati accanto al file JSON, in attachments/<id>
+export function createJsonFileInboxStore(file: string): InboxStore {
+  const filePath = path.resolve(process.cwd(), file)
+  const attachmentsDir = path.join(path.dirname(filePath), 'attachments')
+  // Le scritture sono serializzate per non perdere aggiornamenti concorrenti
+  let queue: Promise<unknown> = Promise.resolve()
+
+  const read = async (): Promise<ContactSubmission[]> => {
+    try {
+      return JSON.parse(await readFile(filePath, 'utf8'))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+      throw error
+    }
+  }
+
+  // Scrittura atomica: file temporaneo e rename, così un crash non lascia JSON troncato
+  const write = async (submissions: ContactSubmission[]) => {
+    await mkdir(path.dirname(filePath), { recursive: true })
+    const temporary = `${filePath}.${process.pid}.tmp`
+    await writeFile(temporary, JSON.stringify(submissions, null, 2))
+    await rename(temporary, filePath)
+  }
+
+  const mutate = <T>(change: (submissions: ContactSubmission[]) => T): Promise<T> => {
+    const next = queue.then(async () => {
+      const submissions = await read()
+      const result = change(submissions)
+      await write(submissions)
+      return result
+    })
+    queue = next.catch(() => undefined)
+    return next
+  }
+
+  const get = async (id: string) => {
+    await queue
+    return (await read()).find((submission) => submission.id === id)
+  }
+
+  return {
+    async list() {
+      await queue
+      return read()
+    },
+    get,
+    async create(input, attachment) {
+      const submission = newSubmission(input, attachment)
+      if (attachment) {
+        await mkdir(attachmentsDir, { recursive: true })
+        await writeFile(path.join(attachmentsDir, submission.id), attachment.content)
+      }
+      return mutate((submissions) => {
+        submissions.push(submission)
+        return submission
+      })
+    },
+    update(id, patch) {
+      return mutate((submissions) => {
+        const index = submissions.findIndex((submission) => submission.id === id)
+        if (index === -1) return undefined
+        submissions[index] = { ...submissions[index], ...patch }
+        return submissions[index]
+      })
+    },
+    async getAttachment(id) {
+      const submission = await get(id)
+      if (!submission?.attachment) return undefined
+      const content = await readFile(path.join(attachmentsDir, id))
+      return { ...submission.attachment, content }
+    },
+  }
+}
+
+let store: InboxStore | null = null
+
+export function getInboxStore(): InboxStore {
+  if (store) return store
+
+  switch (inboxConfig.store) {
+    case 'json':
+      store = createJsonFileInboxStore(inboxConfig.file)
+      break
+    case 'memory':
+      store = createMemoryInboxStore()
+      break
+    default:
+      throw new Error(`Unknown INBOX_STORE "${inboxConfig.store}". Expected one of: json, memory`)
+  }
+
+  return store
+}
+
+const INBOX_STATUS_FILTERS = ['all', 'open', 'handled', 'failed'] as const
+
+export interface InboxFilters {
+  query?: string
+  status?: (typeof INBOX_STATUS_FILTERS)[number]
+}
+
+// Filtri dalla query string (?q=&status=), condivisi dalla pagina admin e dall'export
+export function parseInboxFilters(params: { get(name: string): string | null }): Required<InboxFilters> {
+  const status = params.get('status')
+  return {
+    query: params.get('q') ?? '',
+    status: INBOX_STATUS_FILTERS.find((filter) => filter === status) ?? 'all',
+  }
+}
+
+// Messaggi dal più recente, filtrati per testo (senza accenti) e stato
+export function filterSubmissions(submissions: ContactSubmission[], { query = '', status = 'all' }: InboxFilters) {
+  const words = normalizeText(query).split(/\s+/).filter(Boolean)
+
+  return submissions
+    .filter((submission) => {
+      if (status === 'open' && submission.handled) return false
+      if (status === 'handled' && !submission.handled) return false
+      if (status === 'failed' && submission.status !== 'failed') return false
+
+      const haystack = normalizeText(
+        `${submission.name} ${submission.email} ${submission.phone ?? ''} ${submission.message} ${submission.attachment?.filename ?? ''}`
+      )
+      return words.every((word) => haystack.includes(word))
+    })
+    .sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1))
+}
+
+const CSV_COLUMNS: (keyof ContactSubmission)[] = [
+  'id',
+  'createdAt',
+  'name',
+  'email',
+  'contactMethod',
+  'phone',
+  'projectType',
+  'budget',
+  'timeline',
+  'message',
+  'attachment',
+  'locale',
+  'status',
+  'attempts',
+  'lastError',
+  'confirmationSent',
+  'handled',
+  'handledAt',
+]
+
+// Le celle che iniziano con = + - @ verrebbero interpretate come formule dai fogli di calcolo
+function csvCell(value: unknown) {
+  const text = value === undefined || value === null ? '' : String(value)
+  const safe = /^[=+\-@\t\r]/.test(text) ? `'${text}` : text
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+export function submissionsToCsv(submissions: ContactSubmission[]) {
+  const rows = submissions.map((submission) =>
+    CSV_COLUMNS.map((column) =>
+      csvCell(column === 'attachment' ? submission.attachment?.filename : submission[column])
+    ).join(',')
+  )
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n')
+}
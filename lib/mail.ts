@@ -0,0 +1,168 @@
+import { mkdir, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+
+// Trasporto email intercambiabile: Resend, SMTP oppure file/console per lo sviluppo
+
+export interface MailAttachment {
+  filename: string
+  content: Buffer
+  contentType?: string
+}
+
+export interface MailMessage {
+  from: string
+  to: string | string[]
+  subject: string
+  html: string
+  text: string
+  replyTo?: string
+  attachments?: MailAttachment[]
+}
+
+export interface MailResult {
+  id?: string
+}
+
+export interface MailTransport {
+  name: MailTransportName
+  send(message: MailMessage): Promise<MailResult>
+}
+
+export type MailTransportName = 'resend' | 'smtp' | 'file' | 'console'
+
+const MAIL_TRANSPORTS: MailTransportName[] = ['resend', 'smtp', 'file', 'console']
+
+/**
+ * Configurazione letta dalle variabili d'ambiente:
+ * MAIL_TRANSPORT, MAIL_FROM, CONTACT_TO, RESEND_API_KEY,
+ * SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD e MAIL_FILE_DIR.
+ * Senza MAIL_TRANSPORT si usa Resend solo se è presente la chiave API,
+ * altrimenti le email finiscono in console: sviluppo e test non toccano servizi reali.
+ */
+export const mailConfig = {
+  transport: process.env.MAIL_TRANSPORT,
+  from: process.env.MAIL_FROM || 'info@lradev.app',
+  contactTo: process.env.CONTACT_TO || 'luca.altimare.98@gmail.com',
+  resend: {
+    apiKey: process.env.RESEND_API_KEY,
+  },
+  smtp: {
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT || 587),
+    secure: process.env.SMTP_SECURE === 'true',
+    user: process.env.SMTP_USER,
+    password: process.env.SMTP_PASSWORD,
+  },
+  fileDir: process.env.MAIL_FILE_DIR || '.mail',
+}
+
+function resolveTransportName(value = mailConfig.transport): MailTransportName {
+  if (value) {
+    if (MAIL_TRANSPORTS.includes(value as MailTransportName)) return value as MailTransportName
+    throw new Error(`Unknown MAIL_TRANSPORT "${value}". Expected one of: ${MAIL_TRANSPORTS.join(', ')}`)
+  }
+  return mailConfig.resend.apiKey ? 'resend' : 'console'
+}
+
+function createResendTransport(): MailTransport {
+  const { apiKey } = mailConfig.resend
+  if (!apiKey) throw new Error('RESEND_API_KEY is required for the resend mail transport')
+
+  return {
+    name: 'resend',
+    async send(message) {
+      const { Resend } = await import('resend')
+      const { data, error } = await new Resend(apiKey).emails.send(message)
+      if (error) throw new Error(error.message)
+      return { id: data?.id }
+    },
+  }
+}
+
+function createSmtpTransport(): MailTransport {
+  const { host, port, secure, user, password } = mailConfig.smtp
+  if (!host) throw new Error('SMTP_HOST is required for the smtp mail transport')
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      const nodemailer = await import('nodemailer')
+      const transporter = nodemailer.createTransport({
+        host,
+        port,
+        secure,
+        auth: user ? { user, pass: password } : undefined,
+      })
+      const info = await transporter.sendMail(message)
+      return { id: info.messageId }
+    },
+  }
+}
+
+// Salva ogni messaggio come .eml in MAIL_FILE_DIR, apribile con qualsiasi client di posta
+function createFileTransport(): MailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      const id = `${new Date().toISOString().replace(/[:.]/g, '-')}-${Math.random().toString(36).slice(2, 8)}`
+      const directory = path.resolve(process.cwd(), mailConfig.fileDir)
+      await mkdir(directory, { recursive: true })
+      await writeFile(path.join(directory, `${id}.eml`), formatMessage(message))
+      await writeFile(path.join(directory, `${id}.html`), message.html)
+      for (const attachment of message.attachments ?? []) {
+        await writeFile(path.join(directory, `${id}-${attachment.filename}`), attachment.content)
+      }
+      return { id }
+    },
+  }
+}
+
+function createConsoleTransport(): MailTransport {
+  return {
+    name: 'console',
+    async send(message) {
+      console.info(`[mail] ${formatMessage(message)}`)
+      return { id: `console-${Date.now()}` }
+    },
+  }
+}
+
+// Rappresentazione testuale del messaggio, con la sola parte in testo semplice
+function formatMessage({ from, to, subject, replyTo, text, attachments = [] }: MailMessage) {
+  return [
+    `From: ${from}`,
+    `To: ${Array.isArray(to) ? to.join(', ') : to}`,
+    ...(replyTo ? [`Reply-To: ${replyTo}`] : []),
+    `Subject: ${subject}`,
+    ...(attachments.length > 0
+      ? [`X-Attachments: ${attachments.map((attachment) => `${attachment.filename} (${attachment.content.length} bytes)`).join(', ')}`]
+      : []),
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    text,
+  ].join('\n')
+}
+
+let transport: MailTransport | null = null
+
+// Trasporto configurato, creato alla prima richiesta e poi riutilizzato
+export function getMailTransport(): MailTransport {
+  if (transport) return transport
+
+  switch (resolveTransportName()) {
+    case 'resend':
+      transport = createResendTransport()
+      break
+    case 'smtp':
+      transport = createSmtpTransport()
+      break
+    case 'file':
+      transport = createFileTransport()
+      break
+    case 'console':
+      transport = createConsoleTransport()
+      break
+  }
+
+  return transport
+}
@@ -0,0 +1,12 @@
+import type { LocalizedText } from 'contentlayer/generated'
+import { Locale } from '@/lib/i18n'
+
+/**
+ * Parti della homepage che non leggono i contenuti, come lib/blog-core per il blog.
+ * Le sezioni client (TechStack, SkillStack, FloatingTags, ContactSection) ricevono
+ * i dati da app/[locale]/page.tsx e importano solo da qui.
+ */
+
+export function localize(text: LocalizedText, locale: Locale) {
+  return text[locale]
+}
@@ -0,0 +1,39 @@
+import {
+  allContactLinks,
+  allSkills,
+  allTechCategories,
+  ContactLink,
+  FloatingTag,
+  Skill,
+  tagCloud,
+  TechCategory,
+} from 'contentlayer/generated'
+
+export { localize } from '@/lib/portfolio-core'
+
+// Contenuti della homepage, definiti in content/portfolio e validati da Contentlayer
+
+function byOrder<T extends { order: number }>(documents: T[]): T[] {
+  return [...documents].sort((a, b) => a.order - b.order)
+}
+
+export function getTechCategories(): TechCategory[] {
+  return byOrder(allTechCategories)
+}
+
+export function getSkills(): Skill[] {
+  return byOrder(allSkills)
+}
+
+export function getContactLinks(): ContactLink[] {
+  return byOrder(allContactLinks)
+}
+
+export function getFloatingTags(): FloatingTag[] {
+  return tagCloud.tags
+}
+
+// Tecnologie del Tech Stack, senza duplicati: alimentano `knowsAbout` nei dati strutturati
+export function getKnownTechnologies(): string[] {
+  return Array.from(new Set(getTechCategories().flatMap((category) => category.items.map((item) => item.name))))
+}
@@ -0,0 +1,33 @@
+import type { Project } from 'contentlayer/generated'
+import { Locale, localizedPath } from '@/lib/i18n'
+
+/**
+ * Parti dei progetti che non leggono i contenuti, come lib/blog-core per il blog.
+ * I componenti client (ProjectIndex, ProjectsSection) ricevono le card dalle
+ * pagine server e importano solo da qui.
+ */
+
+// Campi di un progetto mostrati nelle card dell'indice e della homepage
+export type ProjectSummary = Pick<Project, 'slug' | 'locale' | 'title' | 'summary' | 'cover' | 'outcomes' | 'stack'>
+
+export function toProjectSummary(project: Project): ProjectSummary {
+  return {
+    slug: project.slug,
+    locale: project.locale,
+    title: project.title,
+    summary: project.summary,
+    cover: project.cover,
+    outcomes: project.outcomes,
+    stack: project.stack,
+  }
+}
+
+export function getProjectHref(project: Pick<Project, 'slug' | 'locale'>) {
+  return localizedPath(project.locale, `/progetti/${project.slug}`)
+}
+
+// Indice dei progetti, eventualmente filtrato per tecnologia (/it/progetti?stack=django)
+export function getProjectsHref(locale: Locale, stack?: string) {
+  const path = localizedPath(locale, '/progetti')
+  return stack ? `${path}?stack=${stack}` : path
+}
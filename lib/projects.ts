@@ -0,0 +1,54 @@
+import { allProjects, Project } from 'contentlayer/generated'
+import { compareDesc } from 'date-fns'
+import { collectTerms, slugify, TaxonomyTerm } from '@/lib/blog-core'
+import { Locale, translationPaths } from '@/lib/i18n'
+import { getProjectHref, ProjectSummary, toProjectSummary } from '@/lib/projects-core'
+
+export { getProjectHref, getProjectsHref, toProjectSummary, type ProjectSummary } from '@/lib/projects-core'
+
+// Progetti mostrati in homepage
+export const FEATURED_PROJECTS = 3
+
+// Come per i post, le bozze restano visibili solo in sviluppo
+export const publishedProjects: Project[] = allProjects.filter(
+  (project) => process.env.NODE_ENV !== 'production' || !project.draft
+)
+
+// Progetti della lingua dal più recente al più vecchio
+export function getSortedProjects(locale: Locale): Project[] {
+  return publishedProjects
+    .filter((project) => project.locale === locale)
+    .sort((a, b) => compareDesc(new Date(a.date), new Date(b.date)))
+}
+
+export function getFeaturedProjects(locale: Locale): Project[] {
+  return getSortedProjects(locale)
+    .filter((project) => project.featured)
+    .slice(0, FEATURED_PROJECTS)
+}
+
+export function getProjectBySlug(slug: string, locale: Locale): Project | undefined {
+  return publishedProjects.find((project) => project.slug === slug && project.locale === locale)
+}
+
+// Tecnologie usate nei progetti della lingua, per i filtri dell'indice
+export function getProjectStacks(locale: Locale): TaxonomyTerm[] {
+  return collectTerms(getSortedProjects(locale), (project) => project.stack)
+}
+
+export function getProjectsByStack(slug: string, locale: Locale): Project[] {
+  return getSortedProjects(locale).filter((project) =>
+    project.stack.some((technology) => slugify(technology) === slug)
+  )
+}
+
+// Card dei progetti della lingua per ogni tecnologia, per i filtri dell'indice senza leggere i contenuti nel browser
+export function getProjectSummariesByStack(locale: Locale): Record<string, ProjectSummary[]> {
+  return Object.fromEntries(
+    getProjectStacks(locale).map((term) => [term.slug, getProjectsByStack(term.slug, locale).map(toProjectSummary)])
+  )
+}
+
+export function getProjectTranslationPaths(project: Project): Partial<Record<Locale, string>> {
+  return translationPaths(project, publishedProjects, getProjectHref)
+}
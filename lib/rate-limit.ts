@@ -0,0 +1,92 @@
+// Rate limiting a finestra fissa con store intercambiabile
+
+export interface RateLimitEntry {
+  count: number
+  resetAt: number
+}
+
+/**
+ * Contatore condiviso tra le richieste. Lo store in memoria basta in locale e
+ * su una singola istanza; in produzione con più istanze va sostituito con uno
+ * store distribuito (Redis, Upstash, KV...) che implementi la stessa interfaccia.
+ */
+export interface RateLimitStore {
+  increment(key: string, windowMs: number): Promise<RateLimitEntry>
+}
+
+export interface RateLimitRule {
+  // Prefisso della chiave, distingue le regole che condividono lo stesso store
+  name: string
+  limit: number
+  windowMs: number
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  resetAt: number
+  retryAfterSeconds: number
+}
+
+// Oltre questa dimensione lo store in memoria elimina le finestre scadute
+const MEMORY_STORE_PRUNE_SIZE = 1000
+
+export function createMemoryStore(): RateLimitStore {
+  const entries = new Map<string, RateLimitEntry>()
+
+  const prune = (now: number) => {
+    for (const [key, entry] of entries) {
+      if (entry.resetAt <= now) entries.delete(key)
+    }
+  }
+
+  return {
+    async increment(key, windowMs) {
+      const now = Date.now()
+      if (entries.size > MEMORY_STORE_PRUNE_SIZE) prune(now)
+
+      const current = entries.get(key)
+      const entry =
+        current && current.resetAt > now
+          ? { count: current.count + 1, resetAt: current.resetAt }
+          : { count: 1, resetAt: now + windowMs }
+
+      entries.set(key, entry)
+      return entry
+    },
+  }
+}
+
+export async function checkRateLimit(
+  store: RateLimitStore,
+  rule: RateLimitRule,
+  identifier: string
+): Promise<RateLimitResult> {
+  const { count, resetAt } = await store.increment(`${rule.name}:${identifier}`, rule.windowMs)
+
+  return {
+    allowed: count <= rule.limit,
+    limit: rule.limit,
+    remaining: Math.max(0, rule.limit - count),
+    resetAt,
+    retryAfterSeconds: Math.max(1, Math.ceil((resetAt - Date.now()) / 1000)),
+  }
+}
+
+/**
+ * IP del client. Il primo valore di x-forwarded-for lo può scrivere il client
+ * stesso: vale l'header impostato dalla piattaforma (x-real-ip su Vercel) o,
+ * in sua assenza, l'ultimo valore di x-forwarded-for, aggiunto dal proxy
+ * davanti all'app.
+ */
+export function getClientIp(headers: Pick<Headers, 'get'>) {
+  const realIp = headers.get('x-real-ip')?.trim()
+  if (realIp) return realIp
+
+  const hops = (headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((hop) => hop.trim())
+    .filter(Boolean)
+  return hops[hops.length - 1] ?? 'unknown'
+}
@@ -0,0 +1,107 @@
+import { getLocalePosts, getSortedPosts, Post, publishedPosts, slugify } from '@/lib/blog'
+import { markdownToPlainText, tokenize } from '@/lib/search'
+
+// Peso di ogni segnale nel punteggio di correlazione
+const RELATED_WEIGHTS = {
+  category: 1,
+  sharedTag: 1.5,
+  similarity: 4,
+}
+
+type Vector = Map<string, number>
+
+let vectors: Map<string, Vector> | null = null
+
+/**
+ * Vettori TF-IDF normalizzati di tutti i post pubblicati, calcolati una sola
+ * volta per build e riutilizzati da tutte le pagine articolo.
+ */
+function getVectors() {
+  if (vectors) return vectors
+
+  const termFrequencies = publishedPosts.map((post) => {
+    const frequencies: Vector = new Map()
+    const text = `${post.title} ${post.excerpt} ${markdownToPlainText(post.body.raw)}`
+    for (const token of tokenize(text)) {
+      frequencies.set(token, (frequencies.get(token) ?? 0) + 1)
+    }
+    return frequencies
+  })
+
+  const documentFrequency = new Map<string, number>()
+  for (const frequencies of termFrequencies) {
+    for (const term of frequencies.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1)
+    }
+  }
+
+  const result = new Map<string, Vector>()
+  publishedPosts.forEach((post, i) => {
+    const vector: Vector = new Map()
+    let norm = 0
+    for (const [term, frequency] of termFrequencies[i]) {
+      const idf = Math.log(publishedPosts.length / (documentFrequency.get(term) ?? 1))
+      const weight = (1 + Math.log(frequency)) * idf
+      if (weight <= 0) continue
+      vector.set(term, weight)
+      norm += weight * weight
+    }
+    norm = Math.sqrt(norm) || 1
+    for (const [term, weight] of vector) vector.set(term, weight / norm)
+    result.set(post._id, vector)
+  })
+
+  vectors = result
+  return result
+}
+
+function cosineSimilarity(a: Vector, b: Vector) {
+  const [smaller, larger] = a.size < b.size ? [a, b] : [b, a]
+  let dot = 0
+  for (const [term, weight] of smaller) {
+    dot += weight * (larger.get(term) ?? 0)
+  }
+  return dot
+}
+
+/**
+ * Articoli correlati nella stessa lingua, ordinati per categoria in comune, tag
+ * condivisi e somiglianza del contenuto. Restano esclusi i post senza alcun legame.
+ */
+export function getRelatedPosts(post: Post, limit = 3): Post[] {
+  const allVectors = getVectors()
+  const postVector = allVectors.get(post._id)
+  const postTags = new Set(post.tags.map(slugify))
+
+  return getLocalePosts(post.locale)
+    .filter((candidate) => candidate._id !== post._id)
+    .map((candidate) => {
+      const sameCategory = Boolean(post.category) && candidate.category === post.category
+      const sharedTags = candidate.tags.filter((tag) => postTags.has(slugify(tag))).length
+      const candidateVector = allVectors.get(candidate._id)
+      const similarity = postVector && candidateVector ? cosineSimilarity(postVector, candidateVector) : 0
+
+      const score =
+        (sameCategory ? RELATED_WEIGHTS.category : 0) +
+        sharedTags * RELATED_WEIGHTS.sharedTag +
+        similarity * RELATED_WEIGHTS.similarity
+
+      return { candidate, score }
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ candidate }) => candidate)
+}
+
+// Articolo precedente (più vecchio) e successivo (più recente) in ordine cronologico
+export function getAdjacentPosts(post: Post): { previous?: Post; next?: Post } {
+  const sorted = getSortedPosts(post.locale)
+  const index = sorted.findIndex((candidate) => candidate._id === post._id)
+  if (index === -1) return {}
+
+  return {
+    previous: sorted[index + 1],
+    next: index > 0 ? sorted[index - 1] : undefined,
+  }
+}
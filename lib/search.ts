@@ -0,0 +1,259 @@
+import type { Post, PostSummary } from '@/lib/blog-core'
+import { Locale, localizedPath } from '@/lib/i18n'
+
+/**
+ * Indice di ricerca full-text del blog.
+ *
+ * L'indice viene costruito a build time per ogni lingua (vedi
+ * `app/[locale]/search-index.json/route.ts`) e scaricato dal client una sola
+ * volta: ad ogni battitura si interroga solo la struttura già pronta.
+ */
+
+export function getSearchIndexPath(locale: Locale) {
+  return localizedPath(locale, '/search-index.json')
+}
+
+// I campi della card ci sono tutti: con i filtri attivi l'indice del blog mostra i risultati da qui
+export interface SearchDocument extends PostSummary {
+  headings: string[]
+  // Testo semplice del corpo, usato per gli snippet
+  text: string
+}
+
+export interface SearchIndex {
+  documents: SearchDocument[]
+  // termine normalizzato -> lista di [indice documento, peso]
+  terms: Record<string, [number, number][]>
+}
+
+export interface SnippetPart {
+  text: string
+  highlight: boolean
+}
+
+export interface SearchResult {
+  slug: string
+  score: number
+  snippet: SnippetPart[]
+}
+
+// Peso di ogni campo nel punteggio finale
+const FIELD_WEIGHTS = {
+  title: 10,
+  tags: 6,
+  headings: 4,
+  category: 3,
+  excerpt: 3,
+  text: 1,
+}
+
+const STOPWORDS = new Set([
+  'il', 'lo', 'la', 'gli', 'le', 'un', 'uno', 'una', 'di', 'da', 'in', 'con', 'su', 'per',
+  'tra', 'fra', 'ma', 'che', 'non', 'del', 'dello', 'della', 'dei', 'degli', 'delle',
+  'al', 'allo', 'alla', 'ai', 'agli', 'alle', 'nel', 'nello', 'nella', 'nei', 'negli',
+  'nelle', 'sul', 'sullo', 'sulla', 'sui', 'sugli', 'sulle', 'come', 'piu', 'anche',
+  'se', 'si', 'ci', 'ne', 'sono', 'questo', 'questa', 'the', 'and', 'of', 'to',
+])
+
+const SNIPPET_LENGTH = 180
+
+/**
+ * Minuscolo e senza accenti: "Perché" e "perche" diventano lo stesso termine.
+ */
+export function normalizeText(value: string) {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+}
+
+export function tokenize(value: string) {
+  return normalizeText(value)
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 1 && !STOPWORDS.has(token))
+}
+
+/**
+ * Converte il markdown grezzo di un post in testo semplice. Il contenuto dei
+ * blocchi di codice resta indicizzato (nomi come `select_related` sono utili),
+ * vengono rimossi solo i delimitatori e la sintassi markdown.
+ */
+export function markdownToPlainText(markdown: string) {
+  return markdown
+    .replace(/^(```|~~~).*$/gm, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/[*`~|]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+export function extractHeadings(markdown: string) {
+  return Array.from(markdown.replace(/^```[\s\S]*?^```/gm, '').matchAll(/^#{1,6}\s+(.+)$/gm))
+    .map((match) => match[1].replace(/[*_`]/g, '').trim())
+}
+
+export function buildSearchIndex(posts: Post[]): SearchIndex {
+  const terms: Record<string, [number, number][]> = {}
+
+  const documents: SearchDocument[] = posts.map((post, docIndex) => {
+    const document: SearchDocument = {
+      slug: post.slug,
+      locale: post.locale,
+      title: post.title,
+      excerpt: post.excerpt,
+      date: post.date,
+      readTime: post.readTime,
+      category: post.category,
+      tags: post.tags,
+      series: post.series,
+      seriesOrder: post.seriesOrder,
+      draft: post.draft,
+      headings: extractHeadings(post.body.raw),
+      text: markdownToPlainText(post.body.raw),
+    }
+
+    const weights = new Map<string, number>()
+    const addField = (value: string, weight: number) => {
+      for (const token of tokenize(value)) {
+        weights.set(token, (weights.get(token) ?? 0) + weight)
+      }
+    }
+
+    addField(document.title, FIELD_WEIGHTS.title)
+    addField(document.tags.join(' '), FIELD_WEIGHTS.tags)
+    addField(document.headings.join(' '), FIELD_WEIGHTS.headings)
+    addField(document.category ?? '', FIELD_WEIGHTS.category)
+    addField(document.excerpt, FIELD_WEIGHTS.excerpt)
+    addField(document.text, FIELD_WEIGHTS.text)
+
+    for (const [token, weight] of weights) {
+      if (!terms[token]) terms[token] = []
+      terms[token].push([docIndex, weight])
+    }
+
+    return document
+  })
+
+  return { documents, terms }
+}
+
+/**
+ * Cerca nell'indice. Tutte le parole della query devono comparire nel post;
+ * ogni parola corrisponde anche come prefisso ("archit" trova "architettura"),
+ * con un peso inferiore rispetto alla corrispondenza esatta.
+ */
+export function searchIndex(index: SearchIndex, query: string): SearchResult[] {
+  const queryTokens = Array.from(new Set(tokenize(query)))
+  if (queryTokens.length === 0) return []
+
+  const totalDocuments = index.documents.length
+  const allTerms = Object.keys(index.terms)
+  let scores: Map<number, number> | null = null
+
+  for (const queryToken of queryTokens) {
+    const tokenScores = new Map<number, number>()
+
+    for (const term of allTerms) {
+      if (!term.startsWith(queryToken)) continue
+      const postings = index.terms[term]
+      const idf = Math.log(1 + totalDocuments / postings.length)
+      const exactness = term === queryToken ? 1 : 0.5
+
+      for (const [docIndex, weight] of postings) {
+        const score = idf * exactness * (1 + Math.log(weight))
+        tokenScores.set(docIndex, Math.max(tokenScores.get(docIndex) ?? 0, score))
+      }
+    }
+
+    // AND tra le parole: restano solo i documenti che contengono ogni parola
+    const previous: Map<number, number> | null = scores
+    scores = new Map()
+    for (const [docIndex, score] of tokenScores) {
+      if (previous && !previous.has(docIndex)) continue
+      scores.set(docIndex, (previous?.get(docIndex) ?? 0) + score)
+    }
+  }
+
+  return Array.from(scores ?? [])
+    .sort((a, b) => b[1] - a[1])
+    .map(([docIndex, score]) => {
+      const document = index.documents[docIndex]
+      return {
+        slug: document.slug,
+        score,
+        snippet: createSnippet(document, queryTokens),
+      }
+    })
+}
+
+// Testo normalizzato con la posizione di ogni carattere nel testo originale
+function normalizeWithOffsets(value: string) {
+  let normalized = ''
+  const offsets: number[] = []
+  for (let i = 0; i < value.length; i++) {
+    const char = normalizeText(value[i])
+    normalized += char
+    for (let j = 0; j < char.length; j++) offsets.push(i)
+  }
+  offsets.push(value.length)
+  return { normalized, offsets }
+}
+
+function findMatches(value: string, queryTokens: string[]) {
+  const { normalized, offsets } = normalizeWithOffsets(value)
+  // Le parole vanno cercate a inizio parola: il primo gruppo cattura il separatore
+  const pattern = new RegExp(`(^|[^a-z0-9])((?:${queryTokens.join('|')})[a-z0-9]*)`, 'g')
+  return Array.from(normalized.matchAll(pattern)).map((match) => {
+    const index = (match.index ?? 0) + match[1].length
+    return {
+      start: offsets[index],
+      end: offsets[index + match[2].length],
+    }
+  })
+}
+
+function highlight(value: string, matches: { start: number; end: number }[]): SnippetPart[] {
+  const parts: SnippetPart[] = []
+  let cursor = 0
+  for (const { start, end } of matches) {
+    if (start > cursor) parts.push({ text: value.slice(cursor, start), highlight: false })
+    parts.push({ text: value.slice(start, end), highlight: true })
+    cursor = end
+  }
+  if (cursor < value.length) parts.push({ text: value.slice(cursor), highlight: false })
+  return parts
+}
+
+/**
+ * Estrae dal corpo del post una finestra di testo attorno alla prima
+ * corrispondenza ed evidenzia tutte le parole cercate. Se il corpo non
+ * contiene la query si usa l'excerpt.
+ */
+export function createSnippet(document: SearchDocument, queryTokens: string[]): SnippetPart[] {
+  const bodyMatches = findMatches(document.text, queryTokens)
+  if (bodyMatches.length === 0) {
+    return highlight(document.excerpt, findMatches(document.excerpt, queryTokens))
+  }
+
+  const first = bodyMatches[0]
+  let start = Math.max(0, first.start - SNIPPET_LENGTH / 3)
+  let end = Math.min(document.text.length, start + SNIPPET_LENGTH)
+
+  // Allinea la finestra ai confini di parola
+  const wordStart = document.text.indexOf(' ', start) + 1
+  if (start > 0 && wordStart > 0 && wordStart <= first.start) start = wordStart
+  const wordEnd = document.text.lastIndexOf(' ', end)
+  if (end < document.text.length && wordEnd >= first.end) end = wordEnd
+
+  const window = document.text.slice(start, end)
+  const parts = highlight(
+    window,
+    bodyMatches
+      .filter((match) => match.start >= start && match.end <= end)
+      .map((match) => ({ start: match.start - start, end: match.end - start }))
+  )
+
+  if (start > 0) parts.unshift({ text: '… ', highlight: false })
+  if (end < document.text.length) parts.push({ text: ' …', highlight: false })
+  return parts
+}
@@ -0,0 +1,12 @@
+export const siteConfig = {
+  url: 'https://lradev.app',
+  name: 'Luca Altimare - Backend Developer',
+  blogTitle: 'Luca Altimare Blog',
+  blogDescription: 'Articoli tecnici su Backend Development, Python, Django, FastAPI, Clean Architecture e design patterns',
+  author: 'Luca Altimare',
+  language: 'it-IT',
+}
+
+export function absoluteUrl(path: string = '/') {
+  return new URL(path, siteConfig.url).toString()
+}
@@ -0,0 +1,143 @@
+import type { Expression, Literal } from 'estree'
+import type { Element, ElementContent } from 'hast'
+import type { MdxJsxAttribute, MdxJsxFlowElement, MdxJsxTextElement } from 'mdast-util-mdx-jsx'
+import rehypeStringify from 'rehype-stringify'
+import remarkMdx from 'remark-mdx'
+import remarkParse from 'remark-parse'
+import remarkRehype, { Options as RemarkRehypeOptions } from 'remark-rehype'
+import { PluggableList, unified } from 'unified'
+
+type Handler = NonNullable<NonNullable<RemarkRehypeOptions['handlers']>['mdxJsxFlowElement']>
+type State = Parameters<Handler>[0]
+type JsxElement = MdxJsxFlowElement | MdxJsxTextElement
+
+export interface StaticHtmlOptions {
+  // Il sorgente è MDX (file .mdx) e non markdown semplice
+  mdx: boolean
+  remarkPlugins: PluggableList
+  rehypePlugins: PluggableList
+  // Dati del file per i plugin, come `rawDocumentData` nella pipeline di Contentlayer
+  data?: Record<string, unknown>
+}
+
+// Valuta un'espressione letterale (stringhe, numeri, booleani, array e oggetti): niente codice arbitrario
+function literalValue(node: Expression): unknown {
+  switch (node.type) {
+    case 'Literal':
+      return node.value
+    case 'ArrayExpression':
+      return node.elements.map((element) =>
+        element && element.type !== 'SpreadElement' ? literalValue(element) : null
+      )
+    case 'ObjectExpression':
+      return Object.fromEntries(
+        node.properties.flatMap((property) => {
+          if (property.type !== 'Property' || property.computed) return []
+          const key = property.key.type === 'Identifier' ? property.key.name : String((property.key as Literal).value)
+          return [[key, literalValue(property.value as Expression)]]
+        })
+      )
+    default:
+      return undefined
+  }
+}
+
+function attribute(node: JsxElement, name: string): unknown {
+  const attr = node.attributes.find(
+    (candidate): candidate is MdxJsxAttribute => candidate.type === 'mdxJsxAttribute' && candidate.name === name
+  )
+  if (!attr) return undefined
+  if (attr.value === null || attr.value === undefined) return true
+  if (typeof attr.value === 'string') return attr.value
+  const statement = attr.value.data?.estree?.body[0]
+  return statement?.type === 'ExpressionStatement' ? literalValue(statement.expression) : undefined
+}
+
+function element(tagName: string, children: ElementContent[], properties: Element['properties'] = {}): Element {
+  return { type: 'element', tagName, properties, children }
+}
+
+function text(value: unknown): ElementContent {
+  return { type: 'text', value: String(value ?? '') }
+}
+
+// Stessa resa dei ✅/❌ nelle tabelle markdown degli articoli
+function cell(value: unknown) {
+  if (value === true) return '✅'
+  if (value === false) return '❌'
+  return String(value ?? '')
+}
+
+function comparisonTable(node: JsxElement): Element {
+  const columns = attribute(node, 'columns')
+  const rows = attribute(node, 'rows')
+  if (!Array.isArray(columns) || !Array.isArray(rows)) return element('div', [])
+
+  return element('table', [
+    element('thead', [element('tr', [element('th', []), ...columns.map((column) => element('th', [text(column)]))])]),
+    element(
+      'tbody',
+      rows.map((row: { feature?: string; values?: unknown[] }) =>
+        element('tr', [
+          element('td', [text(row.feature)]),
+          ...(row.values ?? []).map((value) => element('td', [text(cell(value))])),
+        ])
+      )
+    ),
+  ])
+}
+
+/**
+ * Versione statica dei componenti MDX degli articoli (components/blog/mdx): i feed
+ * non eseguono JavaScript, quindi le schede diventano sezioni in sequenza, i
+ * blocchi comprimibili `<details>` e i callout citazioni con il titolo in grassetto.
+ */
+const jsxElement: Handler = (state: State, node: JsxElement) => {
+  const children = state.all(node)
+  const title = attribute(node, 'title') ?? attribute(node, 'label')
+
+  switch (node.name) {
+    case 'Callout':
+      return element('blockquote', [...(title ? [element('p', [element('strong', [text(title)])])] : []), ...children])
+    case 'Tab':
+      return element('div', [element('h4', [text(title)]), ...children])
+    case 'Collapsible':
+      return element('details', [element('summary', [text(title)]), ...children])
+    case 'ComparisonTable':
+      return comparisonTable(node)
+    default:
+      return node.type === 'mdxJsxTextElement' ? element('span', children) : element('div', children)
+  }
+}
+
+// Espressioni JavaScript e import/export non hanno un equivalente statico
+const omit: Handler = () => undefined
+
+/**
+ * HTML statico del corpo di un articolo, per i feed. I file .md passano per la
+ * stessa pipeline remark/rehype di sempre; i file .mdx vengono letti con remark-mdx
+ * e i loro componenti ridotti a HTML semplice.
+ */
+export async function renderStaticHtml(source: string, { mdx, remarkPlugins, rehypePlugins, data }: StaticHtmlOptions) {
+  const processor = unified().use(remarkParse)
+  if (mdx) processor.use(remarkMdx)
+  processor.use(remarkPlugins)
+
+  const file = await processor
+    .use(remarkRehype, {
+      handlers: mdx
+        ? {
+            mdxJsxFlowElement: jsxElement,
+            mdxJsxTextElement: jsxElement,
+            mdxFlowExpression: omit,
+            mdxTextExpression: omit,
+            mdxjsEsm: omit,
+          }
+        : {},
+    })
+    .use(rehypePlugins)
+    .use(rehypeStringify)
+    .process({ value: source, data })
+
+  return String(file)
+}
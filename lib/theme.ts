@@ -0,0 +1,25 @@
+// Temi del sito: senza una scelta esplicita vale prefers-color-scheme
+
+export const THEMES = ['light', 'dark'] as const
+
+export type Theme = (typeof THEMES)[number]
+
+// Chiave di localStorage con la scelta fatta dal selettore nella navbar
+export const THEME_STORAGE_KEY = 'theme'
+
+// Sfondo di ogni tema (--background in app/globals.css), per theme-color e manifest
+export const themeColors: Record<Theme, string> = {
+  light: '#f8fafc',
+  dark: '#050508',
+}
+
+export function isTheme(value: unknown): value is Theme {
+  return THEMES.includes(value as Theme)
+}
+
+/**
+ * Script inline da mettere in cima al <head>: applica la classe del tema a <html>
+ * prima del primo paint, così la pagina non mostra il tema sbagliato in attesa
+ * dell'idratazione. Senza localStorage (o con un valore non valido) segue il sistema.
+ */
+export const themeScript = `(function(){try{var t=localStorage.getItem(${JSON.stringify(THEME_STORAGE_KEY)});if(${JSON.stringify(THEMES)}.indexOf(t)<0)t=matchMedia('(prefers-color-scheme: dark)').matches?'dark':'light';document.documentElement.classList.add(t)}catch(e){}})()`
@@ -0,0 +1,66 @@
+import GithubSlugger from 'github-slugger'
+import type { Heading, Nodes, Root } from 'mdast'
+import { toString } from 'mdast-util-to-string'
+import remarkGfm from 'remark-gfm'
+import remarkMath from 'remark-math'
+import remarkMdx from 'remark-mdx'
+import remarkParse from 'remark-parse'
+import { unified } from 'unified'
+import type { Post } from '@/lib/blog-core'
+
+export interface TocEntry {
+  id: string
+  text: string
+  level: number
+  children: TocEntry[]
+}
+
+/**
+ * Albero mdast del corpo di un post con la stessa sintassi usata nel rendering:
+ * MDX per i file .mdx (così i titoli dentro <Collapsible> ci sono), GFM e formule.
+ */
+export function parsePostBody(post: Pick<Post, 'body' | '_raw'>): Root {
+  const processor = unified().use(remarkParse)
+  if (post._raw.sourceFileName.endsWith('.mdx')) processor.use(remarkMdx)
+  return processor.use(remarkGfm).use(remarkMath).parse(post.body.raw)
+}
+
+function collectHeadings(node: Nodes, headings: Heading[]) {
+  if (node.type === 'heading') {
+    headings.push(node)
+    return
+  }
+  if ('children' in node) {
+    for (const child of node.children) collectHeadings(child, headings)
+  }
+}
+
+/**
+ * Estrae dal corpo di un post l'albero dei titoli h2/h3.
+ *
+ * Gli id sono generati con lo stesso slugger usato da rehype-slug, scorrendo
+ * tutti i titoli (anche h1 e h4+) nello stesso ordine: in questo modo anche i
+ * suffissi dei titoli duplicati (`-1`, `-2`) coincidono con le ancore nell'HTML.
+ */
+export function extractToc(post: Pick<Post, 'body' | '_raw'>): TocEntry[] {
+  const slugger = new GithubSlugger()
+  const headings: Heading[] = []
+  collectHeadings(parsePostBody(post), headings)
+
+  const toc: TocEntry[] = []
+  for (const heading of headings) {
+    const text = toString(heading)
+    const id = slugger.slug(text)
+    if (heading.depth < 2 || heading.depth > 3) continue
+
+    const entry: TocEntry = { id, text, level: heading.depth, children: [] }
+    const parent = toc[toc.length - 1]
+    if (heading.depth === 3 && parent) {
+      parent.children.push(entry)
+    } else {
+      toc.push(entry)
+    }
+  }
+
+  return toc
+}
@@ -0,0 +1,289 @@
+import type { Messages } from '@/lib/i18n'
+
+const en: Messages = {
+  meta: {
+    title: 'Backend Developer | Luca Altimare',
+    description:
+      'Backend Developer specialised in IT architectures, Python, PHP and AI integrations. Technical articles on Django, FastAPI, Clean Architecture and design patterns.',
+    shortDescription: 'Backend Developer specialised in IT architectures, Python, PHP and AI integrations',
+    logoAlt: 'Luca Altimare logo',
+  },
+  nav: {
+    home: 'Home',
+    skills: 'Skills',
+    expertise: 'Expertise',
+    projects: 'Projects',
+    blog: 'Blog',
+    contact: 'Contact',
+    cta: 'Work with me',
+    logoAlt: 'LRA logo',
+    openMenu: 'Open menu',
+    closeMenu: 'Close menu',
+    language: 'Language',
+    darkTheme: 'Dark theme',
+  },
+  hero: {
+    title: 'Backend',
+    titleAccent: 'Developer',
+    subtitle: 'IT Architectures · Python · PHP · AI Integrations',
+    description:
+      'Focused on designing scalable architectures, building robust APIs and integrating advanced AI solutions.',
+    primaryCta: 'Explore my Skills',
+    secondaryCta: 'Get in touch',
+  },
+  techStack: {
+    eyebrow: 'Tech Stack',
+    title: 'Technical Skills',
+    description:
+      'Years of hands-on experience with enterprise-grade technologies to build robust, scalable and fast solutions.',
+  },
+  skills: {
+    eyebrow: 'Expertise',
+    title: 'Areas of Expertise',
+    description: 'Cross-cutting skills to take complex projects from the first idea to production.',
+  },
+  projects: {
+    eyebrow: 'Projects',
+    title: 'Case Studies',
+    description: 'Real problems, architectural choices and results measured in production.',
+    viewAll: 'All projects',
+    viewProject: 'Read the case study',
+    metaTitle: 'Projects and Case Studies',
+    metaDescription:
+      'Case studies on backend development, software architecture and AI integrations: the problem, the stack, the architectural choices and the results.',
+    heading: 'Case',
+    headingAccent: 'Studies',
+    intro: 'How I tackled real problems: the context, the stack, the architectural choices and the results.',
+    filterLabel: 'Filter by technology',
+    allStacks: 'All',
+    count: (count: number) => `${count} ${count === 1 ? 'project' : 'projects'}`,
+    noResults: 'No projects use this technology',
+    showAll: 'Show all projects',
+    notFound: 'Project not found',
+    backToProjects: 'Back to projects',
+    client: 'Client',
+    role: 'Role',
+    year: 'Year',
+    problem: 'The problem',
+    stack: 'Stack',
+    architecture: 'Architecture',
+    outcomes: 'Results',
+    links: 'Further reading',
+    linkKinds: {
+      live: 'Visit the website',
+      repository: 'Source code',
+      article: 'Read the article',
+    },
+    coverAlt: (title: string) => `Cover of the ${title} project`,
+  },
+  contact: {
+    eyebrow: 'Contact',
+    title: "Let's Work Together",
+    description: "Have a project in mind? Let's talk. I'm always open to new collaborations and technical challenges.",
+    directContact: 'Direct Contact',
+    email: 'Email',
+    phone: 'Phone',
+    available: 'Available for new projects',
+    form: {
+      steps: ['Project', 'Details', 'Contact'],
+      projectType: 'Project type',
+      budget: 'Estimated budget',
+      timeline: 'Timeline',
+      message: 'Message',
+      messagePlaceholder: 'Describe your project...',
+      attachment: 'Attachment',
+      optional: '(optional)',
+      attachmentHint: (extensions: string, maxMb: number) =>
+        `Brief, specs or mockups: ${extensions} up to ${maxMb} MB`,
+      removeAttachment: 'Remove attachment',
+      name: 'Name',
+      namePlaceholder: 'Your name',
+      email: 'Email',
+      emailPlaceholder: 'Your email',
+      contactMethod: 'How would you like to be contacted?',
+      phone: 'Phone',
+      honeypot: 'Website',
+      back: 'Back',
+      next: 'Next',
+      submit: 'Send Message',
+      submitting: 'Sending...',
+      rateLimited: 'Try again later',
+      success: 'Message Sent!',
+      successText: "I'll get back to you as soon as possible.",
+      confirmationSent: ' Check your inbox: I sent you a confirmation email.',
+      genericError: 'Sending failed, please try again in a moment.',
+    },
+    options: {
+      projectType: {
+        'web-app': 'Web application',
+        api: 'API and backend',
+        ai: 'AI integration',
+        consulting: 'Technical consulting',
+        other: 'Other',
+      },
+      budget: {
+        'under-2k': 'Less than €2,000',
+        '2k-5k': '€2,000 – €5,000',
+        '5k-10k': '€5,000 – €10,000',
+        'over-10k': 'More than €10,000',
+        undecided: 'Not sure yet',
+      },
+      timeline: {
+        asap: 'As soon as possible',
+        '1-3-months': 'Within 1–3 months',
+        '3-6-months': 'Within 3–6 months',
+        flexible: 'Flexible',
+      },
+      contactMethod: {
+        email: 'Email',
+        phone: 'Phone',
+        'video-call': 'Video call',
+      },
+    },
+    validation: {
+      name: {
+        required: 'Enter your name',
+        min: (min: number) => `Your name must be at least ${min} characters long`,
+        max: (max: number) => `Your name cannot exceed ${max} characters`,
+        invalid: 'Your name cannot contain line breaks',
+      },
+      email: {
+        required: 'Enter your email',
+        min: (min: number) => `Your email must be at least ${min} characters long`,
+        max: (max: number) => `Your email cannot exceed ${max} characters`,
+        invalid: 'Enter a valid email address',
+      },
+      message: {
+        required: 'Write a message',
+        min: (min: number) => `Your message must be at least ${min} characters long`,
+        max: (max: number) => `Your message cannot exceed ${max} characters`,
+      },
+      phone: {
+        required: 'Enter a phone number',
+        min: (min: number) => `The phone number must be at least ${min} characters long`,
+        max: (max: number) => `The phone number cannot exceed ${max} characters`,
+        invalid: 'Enter a valid phone number',
+      },
+      projectType: 'Choose a project type',
+      budget: 'Choose a budget range',
+      timeline: 'Choose a timeline',
+      contactMethod: 'Choose how you would like to be contacted',
+      attachmentType: (extensions: string) => `Unsupported format. Allowed: ${extensions}`,
+      attachmentSize: (maxMb: number) => `The attachment cannot exceed ${maxMb} MB`,
+    },
+    errors: {
+      tooManyRequests: (minutes: number) =>
+        `You sent too many messages. Try again in ${minutes} ${minutes === 1 ? 'minute' : 'minutes'}.`,
+      tooFast: 'Sent too quickly, wait a few seconds and try again',
+      expiredForm: 'The form has expired, reload the page and try again',
+      invalidFields: 'Check the highlighted fields',
+    },
+  },
+  footer: {
+    tagline: 'Backend Developer · Made with passion',
+  },
+  blog: {
+    title: 'Luca Altimare Blog',
+    description: 'Technical articles on Backend Development, Python, Django, FastAPI, Clean Architecture and design patterns',
+    heading: 'Tech',
+    headingAccent: 'Blog',
+    metaTitle: 'Tech Blog',
+    intro: 'Articles, tutorials and thoughts on backend development, software architecture and AI.',
+    pageTitle: (page: number) => `Tech Blog - Page ${page}`,
+    pageDescription: (page: number, total: number) =>
+      `Articles, tutorials and thoughts on backend development, software architecture and AI (page ${page} of ${total}).`,
+    pageNotFound: 'Page not found',
+    searchPlaceholder: 'Search articles...',
+    allCategories: 'All categories',
+    articlesFound: (count: number) => `${count} ${count === 1 ? 'article found' : 'articles found'}`,
+    loadingResults: 'Loading results…',
+    openArchive: (name: string) => `Open the ${name} archive →`,
+    noResults: 'No articles found',
+    noResultsHint: 'Try changing the search filters',
+    resetFilters: 'Reset filters',
+    draft: 'Draft',
+    readTime: (readTime: string) => `${readTime} read`,
+    seriesPart: (order: number) => `Part ${order}`,
+    continueReading: 'Continue reading',
+    pagination: {
+      label: 'Article pagination',
+      previous: 'Previous page',
+      next: 'Next page',
+    },
+    archive: {
+      allArticles: 'All articles',
+      articles: (count: number) => `${count} ${count === 1 ? 'article' : 'articles'}`,
+      rss: 'RSS feed',
+      category: 'Category',
+      categoryTitle: (name: string) => `${name} articles`,
+      categoryDescription: (name: string) => `All articles in the ${name} category.`,
+      categoryMetaDescription: (name: string, count: number) =>
+        `All articles in the ${name} category (${count}) on backend development, software architecture and AI.`,
+      categoryNotFound: 'Category not found',
+      categoryFeedDescription: (name: string) => `Articles in the ${name} category`,
+      tag: 'Tag',
+      tagTitle: (name: string) => `Articles about ${name}`,
+      tagDescription: (name: string) => `All articles about ${name}.`,
+      tagMetaDescription: (name: string, count: number) =>
+        `All articles tagged ${name} (${count}) on backend development, software architecture and AI.`,
+      tagNotFound: 'Tag not found',
+      author: 'Author',
+      authorTitle: (name: string) => `Articles by ${name}`,
+      authorMetaDescription: (name: string, count: number) =>
+        `All articles written by ${name} (${count}) on backend development, software architecture and AI.`,
+      authorNotFound: 'Author not found',
+    },
+    post: {
+      notFound: 'Post not found',
+      backToBlog: 'Back to the Blog',
+      writtenBy: 'Written by',
+      publishedOn: 'Published on',
+      readingTime: 'Reading time',
+      updatedOn: 'Updated on',
+      series: 'Series',
+      seriesProgress: (position: number, total: number) => `Part ${position} of ${total}`,
+      endOfArticle: 'End of article',
+      contactMe: 'Get in touch',
+      authorArchive: (name: string) => `All articles by ${name}`,
+      backToArticles: 'Back to all articles',
+      related: 'Related articles',
+      adjacentLabel: 'Previous and next articles',
+      previous: 'Previous article',
+      next: 'Next article',
+      imageAlt: (title: string) => `Preview of the article "${title}" from the Luca Altimare blog`,
+    },
+    mdx: {
+      callouts: {
+        note: 'Note',
+        tip: 'Tip',
+        warning: 'Warning',
+        danger: 'Important',
+      },
+      feature: 'Feature',
+      yes: 'Yes',
+      no: 'No',
+    },
+    code: {
+      copy: 'Copy code',
+      copied: 'Code copied to clipboard',
+    },
+    footnotes: {
+      label: 'Footnotes',
+      backToReference: (reference: string) => `Back to reference ${reference}`,
+    },
+    socials: {
+      github: 'GitHub',
+      linkedin: 'LinkedIn',
+      x: 'X',
+      website: 'Website',
+    },
+    toc: {
+      label: 'Table of contents',
+      title: 'In this article',
+      open: 'Open the table of contents',
+      close: 'Close the table of contents',
+    },
+  },
+}
+
+export default en
@@ -0,0 +1,290 @@
+// Catalogo dei testi in italiano, la lingua di riferimento: en.ts deve avere la stessa forma
+
+const it = {
+  meta: {
+    title: 'Backend Developer | Luca Altimare',
+    description:
+      'Backend Developer specializzato in architetture IT, Python, PHP e AI Integrations. Articoli tecnici su Django, FastAPI, Clean Architecture e design patterns.',
+    shortDescription: 'Backend Developer specializzato in architetture IT, Python, PHP e AI Integrations',
+    logoAlt: 'Logo di Luca Altimare',
+  },
+  nav: {
+    home: 'Home',
+    skills: 'Competenze',
+    expertise: 'Expertise',
+    projects: 'Progetti',
+    blog: 'Blog',
+    contact: 'Contatti',
+    cta: 'Collabora',
+    logoAlt: 'Logo LRA',
+    openMenu: 'Apri il menu',
+    closeMenu: 'Chiudi il menu',
+    language: 'Lingua',
+    darkTheme: 'Tema scuro',
+  },
+  hero: {
+    title: 'Backend',
+    titleAccent: 'Developer',
+    subtitle: 'Architetture IT · Python · PHP · AI Integrations',
+    description:
+      'Specializzato nella progettazione di architetture scalabili, sviluppo di API robuste e integrazione di soluzioni AI avanzate.',
+    primaryCta: 'Scopri le Competenze',
+    secondaryCta: 'Contattami',
+  },
+  techStack: {
+    eyebrow: 'Tech Stack',
+    title: 'Competenze Tecniche',
+    description:
+      'Anni di esperienza su tecnologie enterprise-grade per costruire soluzioni robuste, scalabili e performanti.',
+  },
+  skills: {
+    eyebrow: 'Expertise',
+    title: 'Aree di Specializzazione',
+    description: "Competenze trasversali per gestire progetti complessi dall'ideazione alla produzione.",
+  },
+  projects: {
+    eyebrow: 'Progetti',
+    title: 'Casi di Studio',
+    description: 'Problemi reali, scelte architetturali e risultati misurati sul campo.',
+    viewAll: 'Tutti i progetti',
+    viewProject: 'Leggi il caso di studio',
+    metaTitle: 'Progetti e Casi di Studio',
+    metaDescription:
+      'Casi di studio su backend, architetture software e integrazioni AI: il problema, lo stack, le scelte architetturali e i risultati.',
+    heading: 'Casi di',
+    headingAccent: 'Studio',
+    intro: 'Come ho affrontato problemi reali: il contesto, lo stack, le scelte architetturali e i risultati ottenuti.',
+    filterLabel: 'Filtra per tecnologia',
+    allStacks: 'Tutte',
+    count: (count: number) => `${count} ${count === 1 ? 'progetto' : 'progetti'}`,
+    noResults: 'Nessun progetto con questa tecnologia',
+    showAll: 'Mostra tutti i progetti',
+    notFound: 'Progetto non trovato',
+    backToProjects: 'Torna ai progetti',
+    client: 'Cliente',
+    role: 'Ruolo',
+    year: 'Anno',
+    problem: 'Il problema',
+    stack: 'Stack',
+    architecture: 'Architettura',
+    outcomes: 'Risultati',
+    links: 'Approfondimenti',
+    linkKinds: {
+      live: 'Visita il sito',
+      repository: 'Codice sorgente',
+      article: "Leggi l'articolo",
+    },
+    coverAlt: (title: string) => `Copertina del progetto ${title}`,
+  },
+  contact: {
+    eyebrow: 'Contatti',
+    title: 'Lavoriamo Insieme',
+    description: 'Hai un progetto in mente? Parliamone. Sono sempre aperto a nuove collaborazioni e sfide tecniche.',
+    directContact: 'Contatto Diretto',
+    email: 'Email',
+    phone: 'Telefono',
+    available: 'Disponibile per nuovi progetti',
+    form: {
+      steps: ['Progetto', 'Dettagli', 'Contatti'],
+      projectType: 'Tipo di progetto',
+      budget: 'Budget indicativo',
+      timeline: 'Tempistiche',
+      message: 'Messaggio',
+      messagePlaceholder: 'Descrivi il tuo progetto...',
+      attachment: 'Allegato',
+      optional: '(facoltativo)',
+      attachmentHint: (extensions: string, maxMb: number) =>
+        `Brief, specifiche o mockup: ${extensions} fino a ${maxMb} MB`,
+      removeAttachment: 'Rimuovi allegato',
+      name: 'Nome',
+      namePlaceholder: 'Il tuo nome',
+      email: 'Email',
+      emailPlaceholder: 'La tua email',
+      contactMethod: 'Come preferisci essere contattato?',
+      phone: 'Telefono',
+      honeypot: 'Sito web',
+      back: 'Indietro',
+      next: 'Avanti',
+      submit: 'Invia Messaggio',
+      submitting: 'Invio in corso...',
+      rateLimited: 'Riprova più tardi',
+      success: 'Messaggio Inviato!',
+      successText: 'Ti risponderò il prima possibile.',
+      confirmationSent: ' Controlla la tua casella: ti ho inviato una email di conferma.',
+      genericError: 'Invio non riuscito, riprova tra qualche istante.',
+    },
+    options: {
+      projectType: {
+        'web-app': 'Applicazione web',
+        api: 'API e backend',
+        ai: 'Integrazione AI',
+        consulting: 'Consulenza tecnica',
+        other: 'Altro',
+      },
+      budget: {
+        'under-2k': 'Meno di 2.000 €',
+        '2k-5k': '2.000 – 5.000 €',
+        '5k-10k': '5.000 – 10.000 €',
+        'over-10k': 'Oltre 10.000 €',
+        undecided: 'Da definire',
+      },
+      timeline: {
+        asap: 'Il prima possibile',
+        '1-3-months': 'Entro 1–3 mesi',
+        '3-6-months': 'Entro 3–6 mesi',
+        flexible: 'Flessibile',
+      },
+      contactMethod: {
+        email: 'Email',
+        phone: 'Telefono',
+        'video-call': 'Videochiamata',
+      },
+    },
+    validation: {
+      name: {
+        required: 'Inserisci il tuo nome',
+        min: (min: number) => `Il nome deve contenere almeno ${min} caratteri`,
+        max: (max: number) => `Il nome non può superare ${max} caratteri`,
+        invalid: 'Il nome non può andare a capo',
+      },
+      email: {
+        required: 'Inserisci la tua email',
+        min: (min: number) => `L'email deve contenere almeno ${min} caratteri`,
+        max: (max: number) => `L'email non può superare ${max} caratteri`,
+        invalid: 'Inserisci un indirizzo email valido',
+      },
+      message: {
+        required: 'Scrivi un messaggio',
+        min: (min: number) => `Il messaggio deve contenere almeno ${min} caratteri`,
+        max: (max: number) => `Il messaggio non può superare ${max} caratteri`,
+      },
+      phone: {
+        required: 'Inserisci un numero di telefono',
+        min: (min: number) => `Il numero di telefono deve contenere almeno ${min} caratteri`,
+        max: (max: number) => `Il numero di telefono non può superare ${max} caratteri`,
+        invalid: 'Inserisci un numero di telefono valido',
+      },
+      projectType: 'Scegli il tipo di progetto',
+      budget: 'Scegli una fascia di budget',
+      timeline: 'Indica le tempistiche',
+      contactMethod: 'Scegli come preferisci essere contattato',
+      attachmentType: (extensions: string) => `Formato non supportato. Sono ammessi: ${extensions}`,
+      attachmentSize: (maxMb: number) => `L'allegato non può superare ${maxMb} MB`,
+    },
+    errors: {
+      tooManyRequests: (minutes: number) =>
+        `Hai inviato troppi messaggi. Riprova tra ${minutes} ${minutes === 1 ? 'minuto' : 'minuti'}.`,
+      tooFast: 'Invio troppo rapido, attendi qualche secondo e riprova',
+      expiredForm: 'Il modulo è scaduto, ricarica la pagina e riprova',
+      invalidFields: 'Controlla i campi evidenziati',
+    },
+  },
+  footer: {
+    tagline: 'Backend Developer · Made with passion',
+  },
+  blog: {
+    title: 'Luca Altimare Blog',
+    description:
+      'Articoli tecnici su Backend Development, Python, Django, FastAPI, Clean Architecture e design patterns',
+    heading: 'Blog',
+    headingAccent: 'Tecnico',
+    metaTitle: 'Blog Tecnico',
+    intro: 'Articoli, tutorial e riflessioni su backend development, architetture software e AI.',
+    pageTitle: (page: number) => `Blog Tecnico - Pagina ${page}`,
+    pageDescription: (page: number, total: number) =>
+      `Articoli, tutorial e riflessioni su backend development, architetture software e AI (pagina ${page} di ${total}).`,
+    pageNotFound: 'Pagina non trovata',
+    searchPlaceholder: 'Cerca negli articoli...',
+    allCategories: 'Tutte le categorie',
+    articlesFound: (count: number) => `${count} ${count === 1 ? 'articolo trovato' : 'articoli trovati'}`,
+    loadingResults: 'Caricamento dei risultati…',
+    openArchive: (name: string) => `Apri l'archivio ${name} →`,
+    noResults: 'Nessun articolo trovato',
+    noResultsHint: 'Prova a modificare i filtri di ricerca',
+    resetFilters: 'Resetta filtri',
+    draft: 'Bozza',
+    readTime: (readTime: string) => `${readTime} di lettura`,
+    seriesPart: (order: number) => `Parte ${order}`,
+    continueReading: 'Continua a leggere',
+    pagination: {
+      label: 'Paginazione articoli',
+      previous: 'Pagina precedente',
+      next: 'Pagina successiva',
+    },
+    archive: {
+      allArticles: 'Tutti gli articoli',
+      articles: (count: number) => `${count} ${count === 1 ? 'articolo' : 'articoli'}`,
+      rss: 'Feed RSS',
+      category: 'Categoria',
+      categoryTitle: (name: string) => `Articoli ${name}`,
+      categoryDescription: (name: string) => `Tutti gli articoli della categoria ${name}.`,
+      categoryMetaDescription: (name: string, count: number) =>
+        `Tutti gli articoli della categoria ${name} (${count}) su backend development, architetture software e AI.`,
+      categoryNotFound: 'Categoria non trovata',
+      categoryFeedDescription: (name: string) => `Articoli della categoria ${name}`,
+      tag: 'Tag',
+      tagTitle: (name: string) => `Articoli su ${name}`,
+      tagDescription: (name: string) => `Tutti gli articoli che parlano di ${name}.`,
+      tagMetaDescription: (name: string, count: number) =>
+        `Tutti gli articoli con il tag ${name} (${count}) su backend development, architetture software e AI.`,
+      tagNotFound: 'Tag non trovato',
+      author: 'Autore',
+      authorTitle: (name: string) => `Articoli di ${name}`,
+      authorMetaDescription: (name: string, count: number) =>
+        `Tutti gli articoli scritti da ${name} (${count}) su backend development, architetture software e AI.`,
+      authorNotFound: 'Autore non trovato',
+    },
+    post: {
+      notFound: 'Articolo non trovato',
+      backToBlog: 'Torna al Blog',
+      writtenBy: 'Scritto da',
+      publishedOn: 'Pubblicato il',
+      readingTime: 'Tempo di lettura',
+      updatedOn: 'Aggiornato il',
+      series: 'Serie',
+      seriesProgress: (position: number, total: number) => `Parte ${position} di ${total}`,
+      endOfArticle: "Fine dell'articolo",
+      contactMe: 'Contattami',
+      authorArchive: (name: string) => `Tutti gli articoli di ${name}`,
+      backToArticles: 'Torna agli articoli',
+      related: 'Articoli correlati',
+      adjacentLabel: 'Articoli precedente e successivo',
+      previous: 'Articolo precedente',
+      next: 'Articolo successivo',
+      imageAlt: (title: string) => `Anteprima dell'articolo "${title}" del blog di Luca Altimare`,
+    },
+    mdx: {
+      callouts: {
+        note: 'Nota',
+        tip: 'Suggerimento',
+        warning: 'Attenzione',
+        danger: 'Importante',
+      },
+      feature: 'Caratteristica',
+      yes: 'Sì',
+      no: 'No',
+    },
+    code: {
+      copy: 'Copia il codice',
+      copied: 'Codice copiato negli appunti',
+    },
+    footnotes: {
+      label: 'Note',
+      backToReference: (reference: string) => `Torna al riferimento ${reference}`,
+    },
+    socials: {
+      github: 'GitHub',
+      linkedin: 'LinkedIn',
+      x: 'X',
+      website: 'Sito web',
+    },
+    toc: {
+      label: "Indice dell'articolo",
+      title: 'In questo articolo',
+      open: "Apri l'indice dell'articolo",
+      close: "Chiudi l'indice",
+    },
+  },
+}
+
+export default it
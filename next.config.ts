@@ -2,7 +2,12 @@ import type { NextConfig } from "next";
 import { withContentlayer } from "next-contentlayer2";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  async redirects() {
+    return [
+      // Il vecchio manifest statico: ora lo genera app/manifest.ts
+      { source: "/manifest.json", destination: "/manifest.webmanifest", permanent: true },
+    ];
+  },
 };
 
 export default withContentlayer(nextConfig);
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { DEFAULT_LOCALE, LOCALE_COOKIE, localizedPath, negotiateLocale, splitLocalePath } from '@/lib/i18n'
+
+/**
+ * Ogni pagina del sito vive sotto /it o /en. La homepage sceglie la lingua dal
+ * cookie del selettore o da Accept-Language; i vecchi URL senza prefisso
+ * (/blog/..., /feed.xml) puntano ai contenuti italiani e vengono rediretti in modo permanente.
+ */
+export function proxy(request: NextRequest) {
+  const { pathname } = request.nextUrl
+  const [locale] = splitLocalePath(pathname)
+  if (locale) return NextResponse.next()
+
+  const url = request.nextUrl.clone()
+  if (pathname === '/') {
+    const preferred = negotiateLocale(
+      request.cookies.get(LOCALE_COOKIE)?.value,
+      request.headers.get('accept-language')
+    )
+    url.pathname = localizedPath(preferred)
+    return NextResponse.redirect(url, { headers: { Vary: 'Accept-Language, Cookie' } })
+  }
+
+  url.pathname = localizedPath(DEFAULT_LOCALE, pathname)
+  return NextResponse.redirect(url, 308)
+}
+
+export const config = {
+  // Esclusi API, area admin, asset e file con estensione (icone, sitemap, robots, ...),
+  // tranne i feed e l'indice di ricerca che prima vivevano nella radice
+  matcher: [
+    '/((?!api|admin|_next|.*\\..*).*)',
+    '/(feed\\.xml|atom\\.xml|feed\\.json|search-index\\.json)',
+    '/blog/:path*',
+  ],
+}